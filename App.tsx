@@ -1,22 +1,56 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
 import DataUploader from './components/DataUploader';
 import Dashboard from './components/Dashboard';
 import { CleanedSaleRecord, CorteRecord } from './types';
+import { loadActiveDatasetId, saveActiveDatasetId, loadDataset } from './services/datasetStore';
 
 const App: React.FC = () => {
   const [data, setData] = useState<CleanedSaleRecord[] | null>(null);
   const [corteData, setCorteData] = useState<CorteRecord[]>([]);
+  // The dataset open before a reload is read back from IndexedDB
+  const [restoring, setRestoring] = useState(() => loadActiveDatasetId() !== null);
 
-  const handleDataLoaded = (loadedData: CleanedSaleRecord[], loadedCorte: CorteRecord[]) => {
+  useEffect(() => {
+    const id = loadActiveDatasetId();
+    if (!id) return;
+    loadDataset(id)
+      .then(stored => {
+        if (stored) {
+          setData(stored.sales);
+          setCorteData(stored.cuts);
+        } else {
+          saveActiveDatasetId(null);
+        }
+      })
+      .catch(err => console.error(err))
+      .finally(() => setRestoring(false));
+  }, []);
+
+  const handleDataLoaded = (loadedData: CleanedSaleRecord[], loadedCorte: CorteRecord[], datasetId?: string) => {
     setData(loadedData);
     setCorteData(loadedCorte);
+    saveActiveDatasetId(datasetId || null);
   };
 
+  // The dataset stays stored and can be reopened from the upload screen. The view in the URL
+  // (filters, period) belonged to it, so it goes too instead of applying to the next dataset.
   const handleReset = () => {
     setData(null);
     setCorteData([]);
+    saveActiveDatasetId(null);
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.hash}`);
   };
 
+  if (restoring) {
+    return (
+      <div className="font-sans text-gray-500 bg-[#e5eaf3] min-h-screen flex items-center justify-center gap-2">
+        <Loader2 className="w-5 h-5 animate-spin text-[#adb85c]" />
+        Carregando dados salvos...
+      </div>
+    );
+  }
+
   return (
     <div className="font-sans text-gray-900 bg-[#e5eaf3] min-h-screen">
       {!data ? (
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer, Cell } from 'recharts';
+import { AbcThresholds, CleanedSaleRecord, FilterField, SalesValueKey } from '../types';
+import { aggregateBy } from '../services/dataProcessing';
+import { ABC_COLORS, classifyAbc, clampThresholds, summarizeAbc } from '../services/abcAnalysis';
+
+type AbcDimension = Extract<FilterField, 'codigo' | 'modelo' | 'loja'>;
+
+interface AbcCurveProps {
+  data: CleanedSaleRecord[];
+  valueKey: SalesValueKey;
+  formatValue: (val: number) => string;
+  thresholds: AbcThresholds;
+  onThresholdsChange: (thresholds: AbcThresholds) => void;
+  onSelect?: (field: FilterField, value: string, multi: boolean) => void; // bar click filters the dashboard
+}
+
+const DIMENSIONS: { key: AbcDimension; label: string }[] = [
+  { key: 'codigo', label: 'Produto' },
+  { key: 'modelo', label: 'Modelo' },
+  { key: 'loja', label: 'Loja' },
+];
+
+const MAX_BARS = 40;
+
+const inputClass = 'border border-gray-300 rounded-lg text-sm py-1 px-2 w-16 focus:ring-[#adb85c] focus:border-[#adb85c]';
+
+const AbcCurve: React.FC<AbcCurveProps> = ({ data, valueKey, formatValue, thresholds, onThresholdsChange, onSelect }) => {
+  const [dimension, setDimension] = useState<AbcDimension>('codigo');
+
+  const items = useMemo(
+    () => classifyAbc(aggregateBy(data, dimension, valueKey), thresholds),
+    [data, dimension, valueKey, thresholds]
+  );
+  const summary = useMemo(() => summarizeAbc(items), [items]);
+  // Description shown next to each code in the tooltip
+  const productNames = useMemo(() => {
+    const names = new Map<string, string>();
+    if (dimension === 'codigo') data.forEach(item => { if (!names.has(item.codigo)) names.set(item.codigo, item.produto); });
+    return names;
+  }, [data, dimension]);
+
+  const setThreshold = (key: keyof AbcThresholds, value: number) => onThresholdsChange(clampThresholds({ ...thresholds, [key]: value }));
+
+  const CurveTooltip = ({ active, payload }: any) => {
+    if (!active || !payload || payload.length === 0) return null;
+    const item = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border border-gray-200 shadow-lg rounded text-sm">
+        <p className="font-bold mb-1">{item.name}{productNames.has(item.name) ? ` · ${productNames.get(item.name)}` : ''}</p>
+        <p className="text-[#adb85c] font-semibold">{formatValue(item.value)} ({item.share.toFixed(1)}%)</p>
+        <p className="text-gray-500 text-xs mt-1">Acumulado: {item.cumulativeShare.toFixed(1)}% · Curva {item.abc}</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-bold text-gray-800">Curva ABC</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            A
+            <input type="number" min={0} max={100} value={thresholds.a} onChange={(e) => setThreshold('a', Number(e.target.value))} className={inputClass} />
+            B
+            <input type="number" min={0} max={100} value={thresholds.b} onChange={(e) => setThreshold('b', Number(e.target.value))} className={inputClass} />
+            <span className="text-gray-400">C {Math.max(100 - thresholds.a - thresholds.b, 0)}%</span>
+          </div>
+          <div className="flex bg-gray-100 p-1 rounded-lg">
+            {DIMENSIONS.map(d => (
+              <button
+                key={d.key}
+                onClick={() => setDimension(d.key)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${dimension === d.key ? 'bg-white text-[#adb85c] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {d.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        {summary.map(s => (
+          <div key={s.abc} className="border border-gray-100 rounded-lg p-3 flex items-center gap-3">
+            <span className="w-8 h-8 rounded-full flex items-center justify-center font-bold text-white" style={{ backgroundColor: ABC_COLORS[s.abc] }}>{s.abc}</span>
+            <div>
+              <p className="text-sm font-bold text-gray-800">{s.count} {DIMENSIONS.find(d => d.key === dimension)?.label.toLowerCase()}s</p>
+              <p className="text-xs text-gray-500">{s.share.toFixed(1)}% do total</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-80 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={items.slice(0, MAX_BARS)} margin={{ top: 10, right: 10, left: 10, bottom: 40 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="name" angle={-45} textAnchor="end" interval={0} height={60} tick={{ fontSize: 9 }} />
+            <YAxis yAxisId="value" hide />
+            <YAxis yAxisId="share" orientation="right" domain={[0, 100]} tickFormatter={(val: number) => `${val}%`} tick={{ fontSize: 10 }} width={40} />
+            <Tooltip content={<CurveTooltip />} />
+            <ReferenceLine yAxisId="share" y={thresholds.a} stroke={ABC_COLORS.A} strokeDasharray="4 4" />
+            <ReferenceLine yAxisId="share" y={thresholds.a + thresholds.b} stroke={ABC_COLORS.B} strokeDasharray="4 4" />
+            <Bar
+              yAxisId="value"
+              dataKey="value"
+              radius={[2, 2, 0, 0]}
+              cursor={onSelect ? 'pointer' : undefined}
+              onClick={(entry: any, _index: number, event: React.MouseEvent) => onSelect?.(dimension, String(entry.payload.name), event.ctrlKey || event.metaKey)}
+            >
+              {items.slice(0, MAX_BARS).map(item => <Cell key={item.name} fill={ABC_COLORS[item.abc]} />)}
+            </Bar>
+            <Line yAxisId="share" type="monotone" dataKey="cumulativeShare" stroke="#606633" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      {items.length > MAX_BARS && (
+        <p className="text-xs text-gray-400 mt-2">Mostrando os {MAX_BARS} primeiros de {items.length}. A classificação considera todos.</p>
+      )}
+    </div>
+  );
+};
+
+export default AbcCurve;
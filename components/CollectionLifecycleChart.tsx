@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { RotateCcw } from 'lucide-react';
+import { CleanedSaleRecord, CorteRecord, LifecycleMetric } from '../types';
+import { formatNumber } from '../services/dataProcessing';
+import { formatDateBR } from '../services/dateRanges';
+import {
+  LIFECYCLE_WEEKS, buildLifecycles, collectionsByLaunch, deriveLaunchDates, loadLaunchOverrides, saveLaunchOverrides,
+} from '../services/collectionLifecycle';
+
+interface CollectionLifecycleChartProps {
+  data: CleanedSaleRecord[]; // filtered sales over the whole history, not only the selected period
+  corteData: CorteRecord[];
+  onSelect?: (colecao: string, multi: boolean) => void; // line click filters the dashboard by the collection
+}
+
+const LINE_COLORS = ['#adb85c', '#606633', '#ffc658', '#f87171', '#60a5fa', '#a78bfa', '#34d399', '#fb923c'];
+const DEFAULT_OVERLAY = 3;
+
+const METRICS: { key: LifecycleMetric; label: string }[] = [
+  { key: 'percentualVendido', label: '% Vendido' },
+  { key: 'acumulado', label: 'Peças acumuladas' },
+];
+
+const CollectionLifecycleChart: React.FC<CollectionLifecycleChartProps> = ({ data, corteData, onSelect }) => {
+  const [metric, setMetric] = useState<LifecycleMetric>('percentualVendido');
+  const [maxWeeks, setMaxWeeks] = useState(26);
+  const [overrides, setOverrides] = useState<Record<string, string>>(loadLaunchOverrides);
+  // null until the user picks, so the default follows the data
+  const [picked, setPicked] = useState<string[] | null>(null);
+
+  const allCollections = useMemo(() => collectionsByLaunch(data, overrides), [data, overrides]);
+  const derivedLaunches = useMemo(() => deriveLaunchDates(data), [data]);
+  const selected = useMemo(
+    () => (picked ?? allCollections.slice(0, DEFAULT_OVERLAY)).filter(c => allCollections.includes(c)),
+    [picked, allCollections]
+  );
+
+  const lifecycles = useMemo(
+    () => buildLifecycles(data, corteData, selected, overrides, maxWeeks),
+    [data, corteData, selected, overrides, maxWeeks]
+  );
+  const hasCut = lifecycles.some(l => l.qtdCortada > 0);
+  const activeMetric: LifecycleMetric = hasCut ? metric : 'acumulado';
+
+  // One row per week, one key per collection
+  const chartData = useMemo(() => {
+    const weeks = Math.max(0, ...lifecycles.map(l => l.points.length));
+    return Array.from({ length: weeks }, (_, semana) => {
+      const row: Record<string, number | string | null> = { semana, label: `Sem ${semana}` };
+      lifecycles.forEach(l => {
+        const point = l.points[semana];
+        if (point) row[l.colecao] = point[activeMetric];
+      });
+      return row;
+    });
+  }, [lifecycles, activeMetric]);
+
+  const toggleCollection = (colecao: string) => {
+    setPicked(selected.includes(colecao) ? selected.filter(c => c !== colecao) : [...selected, colecao]);
+  };
+
+  const setOverride = (colecao: string, date: string) => {
+    const next = { ...overrides };
+    if (date && date !== derivedLaunches.get(colecao)) next[colecao] = date;
+    else delete next[colecao];
+    setOverrides(next);
+    saveLaunchOverrides(next);
+  };
+
+  const formatValue = (val: number) => activeMetric === 'percentualVendido' ? `${val.toFixed(1)}%` : formatNumber(val);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-bold text-gray-800">Ciclo de Vida das Coleções</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={maxWeeks}
+            onChange={(e) => setMaxWeeks(Number(e.target.value))}
+            className="border border-gray-300 rounded-lg text-sm py-1.5 px-3 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white"
+          >
+            {LIFECYCLE_WEEKS.map(w => <option key={w} value={w}>Primeiras {w} semanas</option>)}
+          </select>
+          <div className="flex bg-gray-100 p-1 rounded-lg">
+            {METRICS.map(m => (
+              <button
+                key={m.key}
+                onClick={() => setMetric(m.key)}
+                disabled={m.key === 'percentualVendido' && !hasCut}
+                title={m.key === 'percentualVendido' && !hasCut ? 'Carregue a planilha de corte para ver o % vendido' : undefined}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all disabled:opacity-40 ${activeMetric === m.key ? 'bg-white text-[#adb85c] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {allCollections.map(colecao => {
+          const active = selected.includes(colecao);
+          return (
+            <button
+              key={colecao}
+              onClick={() => toggleCollection(colecao)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${active ? 'bg-[#f4f6e6] border-[#adb85c] text-[#8d9648]' : 'border-gray-200 text-gray-500 hover:border-gray-300'}`}
+            >
+              {colecao}
+            </button>
+          );
+        })}
+      </div>
+
+      {lifecycles.length > 0 ? (
+        <>
+          <div className="h-80 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 10, left: 10, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#eee" />
+                <XAxis dataKey="label" tick={{ fontSize: 10 }} minTickGap={10} />
+                <YAxis tick={{ fontSize: 10 }} tickFormatter={formatValue} width={60} />
+                <Tooltip formatter={(val: number) => formatValue(val)} />
+                <Legend
+                  verticalAlign="top"
+                  height={30}
+                  iconType="circle"
+                  onClick={(entry, _index, event) => onSelect?.(String(entry.dataKey), event.ctrlKey || event.metaKey)}
+                />
+                {lifecycles.map((l, index) => (
+                  <Line
+                    key={l.colecao}
+                    type="monotone"
+                    dataKey={l.colecao}
+                    stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                    strokeWidth={index === 0 ? 3 : 2}
+                    dot={false}
+                    cursor={onSelect ? 'pointer' : undefined}
+                    onClick={(_curve, event) => onSelect?.(l.colecao, event.ctrlKey || event.metaKey)}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <table className="w-full text-xs text-gray-600 mt-4">
+            <thead className="uppercase bg-gray-50 text-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left">Coleção</th>
+                <th className="px-3 py-2 text-left">Lançamento</th>
+                <th className="px-3 py-2 text-right">Cortado</th>
+                <th className="px-3 py-2 text-right">Vendido</th>
+                <th className="px-3 py-2 text-right">% Vendido</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lifecycles.map((l, index) => {
+                const last = l.points[l.points.length - 1];
+                return (
+                  <tr key={l.colecao} className="border-t border-gray-100">
+                    <td className="px-3 py-1.5 font-medium text-gray-800">
+                      <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: LINE_COLORS[index % LINE_COLORS.length] }} />
+                      {l.colecao}
+                    </td>
+                    <td className="px-3 py-1.5">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="date"
+                          value={l.lancamento}
+                          onChange={(e) => setOverride(l.colecao, e.target.value)}
+                          className={`border border-gray-300 rounded-lg text-xs py-1 px-2 focus:ring-[#adb85c] focus:border-[#adb85c] ${l.lancamentoManual ? 'bg-yellow-50' : ''}`}
+                        />
+                        {l.lancamentoManual && (
+                          <button
+                            onClick={() => setOverride(l.colecao, '')}
+                            className="text-gray-400 hover:text-gray-600"
+                            title={`Voltar à primeira venda (${formatDateBR(derivedLaunches.get(l.colecao) || '')})`}
+                          >
+                            <RotateCcw className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-3 py-1.5 text-right">{l.qtdCortada > 0 ? formatNumber(l.qtdCortada) : '-'}</td>
+                    <td className="px-3 py-1.5 text-right">{formatNumber(last?.acumulado || 0)}</td>
+                    <td className="px-3 py-1.5 text-right">{last?.percentualVendido != null ? `${last.percentualVendido.toFixed(1)}%` : '-'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400 mt-2">
+            Semanas contadas a partir da primeira venda de cada coleção. Ajuste a data de lançamento quando a primeira venda não for o lançamento real.
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-400 py-8 text-center">Selecione ao menos uma coleção.</p>
+      )}
+    </div>
+  );
+};
+
+export default CollectionLifecycleChart;
@@ -0,0 +1,230 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { columnLetter } from '../services/dataProcessing';
+import { ColumnMapping, DateFormat, FieldDefinition, MatchConfidence, NumberLocale } from '../types';
+
+interface ColumnMappingWizardProps<F extends string> {
+  title: string;
+  fileName: string;
+  rows: any[][];
+  fields: FieldDefinition<F>[];
+  mapping: ColumnMapping<F>;
+  onHeaderRowChange: (headerRowIndex: number) => void;
+  onMappingChange: (mapping: ColumnMapping<F>) => void;
+  showDateFormat?: boolean;
+  headerActions?: React.ReactNode;
+}
+
+const PREVIEW_ROWS = 5;
+
+const CONFIDENCE_BADGES: Record<MatchConfidence, { label: string; className: string }> = {
+  high: { label: 'Alta', className: 'bg-green-100 text-green-700' },
+  medium: { label: 'Média', className: 'bg-yellow-100 text-yellow-700' },
+  low: { label: 'Baixa (posição fixa)', className: 'bg-red-50 text-red-600' },
+  none: { label: 'Não encontrada', className: 'bg-gray-100 text-gray-500' },
+};
+
+const NUMBER_LOCALES: { value: NumberLocale; label: string }[] = [
+  { value: 'auto', label: 'Automático' },
+  { value: 'pt-BR', label: '1.234,56' },
+  { value: 'en-US', label: '1,234.56' },
+];
+
+const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'auto', label: 'Automático' },
+  { value: 'dd/mm/yyyy', label: 'dd/mm/aaaa' },
+  { value: 'mm/dd/yyyy', label: 'mm/dd/aaaa' },
+  { value: 'yyyy-mm-dd', label: 'aaaa-mm-dd' },
+];
+
+const selectClass = 'border border-gray-300 rounded-lg text-sm py-1.5 px-3 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white';
+
+const ColumnMappingWizard = <F extends string>({
+  title,
+  fileName,
+  rows,
+  fields,
+  mapping,
+  onHeaderRowChange,
+  onMappingChange,
+  showDateFormat = true,
+  headerActions,
+}: ColumnMappingWizardProps<F>) => {
+  const columnCount = useMemo(() => rows.reduce((max, row) => Math.max(max, row?.length || 0), 0), [rows]);
+  const headerRow = mapping.headerRowIndex !== -1 ? rows[mapping.headerRowIndex] || [] : [];
+  const previewRows = rows.slice(mapping.headerRowIndex + 1, mapping.headerRowIndex + 1 + PREVIEW_ROWS);
+
+  const columnName = (idx: number) => {
+    const header = headerRow[idx];
+    return header !== undefined && header !== null && String(header).trim() !== ''
+      ? `${columnLetter(idx)} · ${String(header).trim()}`
+      : columnLetter(idx);
+  };
+
+  const formatCell = (val: any) => {
+    if (val === null || val === undefined) return '';
+    if (val instanceof Date) return val.toLocaleDateString('pt-BR');
+    return String(val);
+  };
+
+  // Columns claimed by more than one field are likely a mistake
+  const duplicatedColumns = useMemo(() => {
+    const counts = new Map<number, number>();
+    fields.forEach(f => {
+      const idx = mapping.columns[f.key].index;
+      if (idx !== -1) counts.set(idx, (counts.get(idx) || 0) + 1);
+    });
+    return new Set(Array.from(counts.entries()).filter(([, c]) => c > 1).map(([idx]) => idx));
+  }, [fields, mapping]);
+
+  const mappedFieldByColumn = useMemo(() => {
+    const map = new Map<number, string>();
+    fields.forEach(f => {
+      const idx = mapping.columns[f.key].index;
+      if (idx !== -1 && !map.has(idx)) map.set(idx, f.label);
+    });
+    return map;
+  }, [fields, mapping]);
+
+  const handleColumnChange = (field: F, index: number) => {
+    onMappingChange({
+      ...mapping,
+      columns: {
+        ...mapping.columns,
+        // A manual choice is trusted as much as a header match
+        [field]: { index, confidence: index === -1 ? 'none' : 'high' },
+      },
+    });
+  };
+
+  return (
+    <div className="text-left">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">{title}</h3>
+          <p className="text-xs text-gray-500 break-all">{fileName}</p>
+        </div>
+        {headerActions}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Linha do cabeçalho:
+          <select
+            value={mapping.headerRowIndex}
+            onChange={(e) => onHeaderRowChange(Number(e.target.value))}
+            className={selectClass}
+          >
+            <option value={-1}>Sem cabeçalho</option>
+            {rows.slice(0, 10).map((_, i) => (
+              <option key={i} value={i}>Linha {i + 1}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Números:
+          <select
+            value={mapping.numberLocale}
+            onChange={(e) => onMappingChange({ ...mapping, numberLocale: e.target.value as NumberLocale })}
+            className={selectClass}
+          >
+            {NUMBER_LOCALES.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </label>
+        {showDateFormat && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Datas:
+            <select
+              value={mapping.dateFormat}
+              onChange={(e) => onMappingChange({ ...mapping, dateFormat: e.target.value as DateFormat })}
+              className={selectClass}
+            >
+              {DATE_FORMATS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div className="overflow-x-auto border border-gray-100 rounded-lg mb-6">
+        <table className="w-full text-sm text-gray-600">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left">Campo</th>
+              <th className="px-4 py-2 text-left">Coluna</th>
+              <th className="px-4 py-2 text-left">Confiança</th>
+              <th className="px-4 py-2 text-left">Exemplo</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map(field => {
+              const match = mapping.columns[field.key];
+              const badge = CONFIDENCE_BADGES[match.confidence];
+              const sample = match.index !== -1 ? previewRows.map(r => formatCell(r?.[match.index])).filter(Boolean).slice(0, 2).join(', ') : '';
+
+              return (
+                <tr key={field.key} className="border-b border-gray-100">
+                  <td className="px-4 py-2 font-medium text-gray-800 whitespace-nowrap">
+                    {field.label}
+                    {field.required && <span className="text-[#adb85c] ml-1">*</span>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={match.index}
+                        onChange={(e) => handleColumnChange(field.key, Number(e.target.value))}
+                        className="border border-gray-300 rounded-lg text-sm py-1 px-2 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white max-w-[14rem]"
+                      >
+                        <option value={-1}>— Não mapear —</option>
+                        {Array.from({ length: Math.max(columnCount, match.index + 1) }, (_, idx) => (
+                          <option key={idx} value={idx}>{columnName(idx)}</option>
+                        ))}
+                      </select>
+                      {duplicatedColumns.has(match.index) && (
+                        <span title="Coluna usada por mais de um campo">
+                          <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${badge.className}`}>{badge.label}</span>
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 max-w-[12rem] truncate" title={sample}>{sample || '-'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Pré-visualização</p>
+      <div className="overflow-x-auto border border-gray-100 rounded-lg">
+        <table className="text-xs text-gray-600">
+          <thead className="bg-gray-50">
+            <tr>
+              {Array.from({ length: columnCount }, (_, idx) => (
+                <th key={idx} className={`px-3 py-2 text-left whitespace-nowrap ${mappedFieldByColumn.has(idx) ? 'bg-[#f4f6e6] text-[#606633]' : 'text-gray-500'}`}>
+                  <div>{columnName(idx)}</div>
+                  <div className="font-normal">{mappedFieldByColumn.get(idx) || ''}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {previewRows.map((row, i) => (
+              <tr key={i} className="border-t border-gray-100">
+                {Array.from({ length: columnCount }, (_, idx) => (
+                  <td key={idx} className={`px-3 py-1.5 whitespace-nowrap max-w-[10rem] truncate ${mappedFieldByColumn.has(idx) ? 'bg-[#f4f6e6]/50' : ''}`}>
+                    {formatCell(row?.[idx])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { GitCompare } from 'lucide-react';
+import { ComparisonMode, DateRange } from '../types';
+import { COMPARISON_MODES, formatDateBR } from '../services/dateRanges';
+
+interface ComparisonSelectorProps {
+  mode: ComparisonMode;
+  custom: DateRange;
+  resolved: DateRange | null; // range actually compared against, shown as a hint
+  bounds: DateRange;
+  onModeChange: (mode: ComparisonMode) => void;
+  onCustomChange: (range: DateRange) => void;
+}
+
+const ComparisonSelector: React.FC<ComparisonSelectorProps> = ({ mode, custom, resolved, bounds, onModeChange, onCustomChange }) => (
+  <div className="flex items-center gap-2 bg-gray-50 px-3 py-1.5 rounded-lg border border-gray-200">
+    <GitCompare className="w-4 h-4 text-gray-500" />
+    <select
+      value={mode}
+      onChange={(e) => onModeChange(e.target.value as ComparisonMode)}
+      className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 font-medium cursor-pointer w-28 md:w-auto"
+      title={resolved ? `Comparando com ${formatDateBR(resolved.start)} a ${formatDateBR(resolved.end)}` : undefined}
+    >
+      {COMPARISON_MODES.map(m => (
+        <option key={m.key} value={m.key}>{m.label}</option>
+      ))}
+    </select>
+    {mode === 'custom' && (
+      <>
+        <input
+          type="date"
+          value={custom.start}
+          min={bounds.start}
+          max={custom.end || bounds.end}
+          onChange={(e) => onCustomChange({ ...custom, start: e.target.value })}
+          className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 w-32 p-0 cursor-pointer"
+        />
+        <span className="text-gray-400">-</span>
+        <input
+          type="date"
+          value={custom.end}
+          min={custom.start || bounds.start}
+          max={bounds.end}
+          onChange={(e) => onCustomChange({ ...custom, end: e.target.value })}
+          className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 w-32 p-0 cursor-pointer"
+        />
+      </>
+    )}
+    {mode !== 'none' && mode !== 'custom' && resolved && (
+      <span className="text-xs text-gray-400 whitespace-nowrap">{formatDateBR(resolved.start)} a {formatDateBR(resolved.end)}</span>
+    )}
+  </div>
+);
+
+export default ComparisonSelector;
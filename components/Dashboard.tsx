@@ -1,11 +1,32 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
   PieChart, Pie, Cell, LabelList
 } from 'recharts';
-import { CleanedSaleRecord, DetailedTableRow, CorteRecord } from '../types';
-import { aggregateBy, calculateMetrics, formatCurrency, formatNumber, sortSizes, prepareDataTable } from '../services/dataProcessing';
-import { Store, ShoppingBag, TrendingUp, Tag, Filter, XCircle, Calendar, DollarSign, Box, Percent, Search, ChevronLeft, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown, Scissors, AlertTriangle } from 'lucide-react';
+import { CleanedSaleRecord, DetailedTableRow, CorteRecord, StoreRecord, DateRange, ComparisonMode, SalesValueKey, AbcClass, AbcThresholds, DimensionFilter, DimensionFilters, FilterField, MetricMode, TableSort, DashboardView } from '../types';
+import { aggregateBy, addComparison, calculateMetrics, cutAttributes, formatCurrency, formatNumber, sortSizes, prepareDataTable, buildSizeGrid } from '../services/dataProcessing';
+import { loadRules } from '../services/normalizationRules';
+import { loadStores, saveStores, applyStoreRegistry, newStores, isComparableStore } from '../services/storeRegistry';
+import StoreRegistryModal from './StoreRegistryModal';
+import SizeGridModal from './SizeGridModal';
+import PivotBuilder from './PivotBuilder';
+import AbcCurve from './AbcCurve';
+import StockCoveragePanel from './StockCoveragePanel';
+import RecutModal from './RecutModal';
+import ForecastPanel from './ForecastPanel';
+import CollectionLifecycleChart from './CollectionLifecycleChart';
+import { computeStockCoverage, formatCoverage } from '../services/stockCoverage';
+import { ABC_COLORS, classifyAbc, loadAbcThresholds, saveAbcThresholds } from '../services/abcAnalysis';
+import { FILTER_FIELDS, setDimensionFilter, toggleFilterValue, removeFilterValue, hasDimensionFilters, matchesDimensionFilters, cutMatchesDimensionFilters } from '../services/dimensionFilters';
+import DateRangePicker from './DateRangePicker';
+import SalesTimeline from './SalesTimeline';
+import ComparisonSelector from './ComparisonSelector';
+import MultiSelectFilter from './MultiSelectFilter';
+import { decodeView, encodeView, onlySearchChanged } from '../services/viewState';
+import { loadSavedViews, defaultSavedView, resolveSavedView } from '../services/savedViews';
+import SavedViewsMenu from './SavedViewsMenu';
+import { addYears, comparisonRange, dateBoundsOf, saleDatesOf } from '../services/dateRanges';
+import { Store, ShoppingBag, TrendingUp, Tag, Filter, XCircle, DollarSign, Box, Percent, Search, ChevronLeft, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown, ArrowUpRight, ArrowDownRight, Scissors, AlertTriangle, Receipt, Package, Coins, Factory, X } from 'lucide-react';
 
 interface DashboardProps {
   data: CleanedSaleRecord[];
@@ -21,136 +42,312 @@ const BRAND_DARK = '#8d9648';
 const COLORS = [BRAND_PRIMARY, '#d4db9b', '#7e8543', '#f0f2da', '#606633', '#cdd66f', '#e2e6b8', '#9ca653'];
 
 type SortKey = keyof DetailedTableRow;
-type SortDirection = 'asc' | 'desc';
+type StoreDimension = 'regiao' | 'canal' | 'porte';
+
+const STORE_DIMENSIONS: { key: StoreDimension; label: string }[] = [
+  { key: 'regiao', label: 'Região' },
+  { key: 'canal', label: 'Canal' },
+  { key: 'porte', label: 'Porte' },
+];
+
+const METRIC_VALUE_KEYS: Record<MetricMode, SalesValueKey> = { revenue: 'valorTotal', quantity: 'quantidade', margin: 'margem' };
+const METRIC_TITLES: Record<MetricMode, string> = { revenue: 'Faturamento', quantity: 'Vendas (Qtd)', margin: 'Margem' };
+
+const COMPARISON_COLOR = '#d1d5db';
+
+// Change vs. the comparison period; `points` shows rates as percentage-point differences
+const DeltaBadge = ({ current, previous, format, points = false }: {
+  current: number;
+  previous: number;
+  format: (val: number) => string;
+  points?: boolean;
+}) => {
+  const diff = current - previous;
+  if (Math.abs(diff) < 1e-9) {
+    return <p className="text-xs mt-1 text-gray-400">Sem variação vs. comparação</p>;
+  }
+  const up = diff > 0;
+  const sign = up ? '+' : '';
+  const pct = previous !== 0 ? (diff / Math.abs(previous)) * 100 : null;
+  return (
+    <p className={`flex items-center gap-1 text-xs mt-1 font-medium ${up ? 'text-green-600' : 'text-red-500'}`}>
+      {up ? <ArrowUpRight className="w-3.5 h-3.5" /> : <ArrowDownRight className="w-3.5 h-3.5" />}
+      {points
+        ? `${sign}${diff.toFixed(1)} p.p.`
+        : `${sign}${format(diff)}${pct !== null ? ` (${sign}${pct.toFixed(1)}%)` : ''}`}
+      <span className="text-gray-400 font-normal">vs. comparação</span>
+    </p>
+  );
+};
+
+const inRange = (date: string, range: DateRange) =>
+  (!range.start || date >= range.start) && (!range.end || date <= range.end);
+
+const Dashboard: React.FC<DashboardProps> = ({ data: salesData, corteData, onReset }) => {
+  // The view (filters, dates, metric, sort, search) starts from the URL, so links and bookmarks reopen it;
+  // without one, the saved view marked as default is opened
+  const initialView = useMemo(() => {
+    const saved = defaultSavedView(loadSavedViews());
+    if (window.location.search || !saved) return decodeView(window.location.search);
+    return resolveSavedView(saved, dateBoundsOf(salesData));
+  }, []);
+
+  // Store registry: region/channel/size per store, editable from the header
+  const [stores, setStores] = useState<StoreRecord[]>(() => loadStores());
+  const [showStores, setShowStores] = useState(false);
+  const [gridCodigo, setGridCodigo] = useState<string | null>(null);
+  const [abcThresholds, setAbcThresholds] = useState<AbcThresholds>(loadAbcThresholds);
+  const [abcFilter, setAbcFilter] = useState<AbcClass | 'all'>(initialView.abcFilter);
+  const [velocityWeeks, setVelocityWeeks] = useState(4);
+  const [showRecut, setShowRecut] = useState(false);
+  const data = useMemo(() => applyStoreRegistry(salesData, stores), [salesData, stores]);
 
-const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
   // Filter States
-  const [selectedStore, setSelectedStore] = useState<string>('all');
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [selectedColecao, setSelectedColecao] = useState<string>('all');
+  const [sameStoreOnly, setSameStoreOnly] = useState(initialView.sameStoreOnly);
+  const [storeDimension, setStoreDimension] = useState<StoreDimension>('regiao');
+  // Multi-select filters (store and product dimensions), also set by clicking chart elements
+  const [dimensionFilters, setDimensionFilters] = useState<DimensionFilters>(initialView.filters);
   
-  // Date range
-  const [dateRange, setDateRange] = useState<{ start: string; end: string }>({ start: '', end: '' });
+  // Date range (yyyy-mm-dd, inclusive)
+  const [dateRange, setDateRange] = useState<DateRange>(initialView.dateRange);
+
+  // Comparison period for KPI deltas and chart series
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>(initialView.comparisonMode);
+  const [customComparison, setCustomComparison] = useState<DateRange>(initialView.customComparison);
   
   // Table Search State
-  const [searchCode, setSearchCode] = useState('');
+  const [searchCode, setSearchCode] = useState(initialView.search);
 
   // Table Sort State
-  const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: SortDirection }>({ key: 'faturado', direction: 'desc' });
+  const [sortConfig, setSortConfig] = useState<TableSort>(initialView.sort);
 
   // Metric Toggle
-  const [metricMode, setMetricMode] = useState<'revenue' | 'quantity'>('revenue');
+  const [metricMode, setMetricMode] = useState<MetricMode>(initialView.metricMode);
+
+  // Size order is edited alongside the normalization rules on the import screen
+  const sizeOrder = useMemo(() => loadRules().sizeOrder, []);
 
   // Pagination State
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [currentPage, setCurrentPage] = useState(1);
 
   // 1. Calculate Data Constraints (Dates)
-  const { minAllowedDate, maxAllowedDate } = useMemo(() => {
-    if (data.length === 0) return { minAllowedDate: '', maxAllowedDate: '' };
-    const sortedDates = [...data].map(d => d.data).sort();
-    return {
-      minAllowedDate: sortedDates[0] ? sortedDates[0].substring(0, 7) : '',
-      maxAllowedDate: sortedDates[sortedDates.length - 1] ? sortedDates[sortedDates.length - 1].substring(0, 7) : ''
-    };
-  }, [data]);
+  const dateBounds: DateRange = useMemo(() => dateBoundsOf(data), [data]);
+  const saleDates = useMemo(() => saleDatesOf(data), [data]);
 
   useEffect(() => {
-    if (minAllowedDate && maxAllowedDate && !dateRange.start) {
-      setDateRange({ start: minAllowedDate, end: maxAllowedDate });
+    if (dateBounds.start && dateBounds.end && !dateRange.start) {
+      setDateRange(dateBounds);
+    }
+  }, [dateBounds]);
+
+  const currentView: DashboardView = useMemo(() => ({
+    filters: dimensionFilters,
+    sameStoreOnly,
+    dateRange,
+    comparisonMode,
+    customComparison,
+    metricMode,
+    sort: sortConfig,
+    search: searchCode,
+    abcFilter,
+  }), [dimensionFilters, sameStoreOnly, dateRange, comparisonMode, customComparison, metricMode, sortConfig, searchCode, abcFilter]);
+
+  // Mirror the view in the URL; each change is a history entry, so back/forward step through them
+  const lastView = useRef<DashboardView | null>(null);
+  useEffect(() => {
+    const query = encodeView(currentView, dateBounds);
+    const previous = lastView.current;
+    lastView.current = currentView;
+    if (query === window.location.search) return;
+    const url = `${window.location.pathname}${query}${window.location.hash}`;
+    if (!previous || onlySearchChanged(previous, currentView)) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
     }
-  }, [minAllowedDate, maxAllowedDate]);
+  }, [currentView, dateBounds]);
+
+  // Back/forward and saved views replace the whole view at once
+  const applyView = (view: DashboardView) => {
+    setDimensionFilters(view.filters);
+    setSameStoreOnly(view.sameStoreOnly);
+    setDateRange(view.dateRange.start ? view.dateRange : dateBounds);
+    setComparisonMode(view.comparisonMode);
+    setCustomComparison(view.customComparison);
+    setMetricMode(view.metricMode);
+    setSortConfig(view.sort);
+    setSearchCode(view.search);
+    setAbcFilter(view.abcFilter);
+    setCurrentPage(1);
+  };
+
+  useEffect(() => {
+    const handlePopState = () => applyView(decodeView(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [dateBounds]);
 
   const storeOptions = useMemo(() => Array.from(new Set(data.map(d => d.loja))).sort(), [data]);
-  const categoryOptions = useMemo(() => Array.from(new Set(data.map(d => d.categoria))).sort(), [data]);
-  const colecaoOptions = useMemo(() => Array.from(new Set(data.map(d => d.colecao))).sort(), [data]);
-
-  // 2. Build Metadata Map (Code -> Category/Collection) to enable filtering on CorteData
-  // Since CorteData usually lacks Category/Collection info, we borrow it from Sales History.
-  const productMetaMap = useMemo(() => {
-    const map = new Map<string, { cat: string, col: string }>();
-    data.forEach(item => {
-      // We normalize the code to ensure matching
-      const key = String(item.codigo).trim();
-      if (!map.has(key)) {
-        map.set(key, { cat: item.categoria, col: item.colecao });
-      }
-    });
-    return map;
+  const storeAttributeOptions = useMemo(() => {
+    const values = (field: 'regiao' | 'canal' | 'porte') =>
+      Array.from(new Set(data.map(d => d[field]).filter((v): v is string => !!v))).sort();
+    return { regiao: values('regiao'), canal: values('canal'), porte: values('porte') };
   }, [data]);
+  // Cut-only products get their attributes from the catalog, so they count as options too
+  const productOptions = useMemo(() => {
+    const values = (field: 'categoria' | 'subCategoria' | 'colecao' | 'modelo' | 'cor' | 'tamanho') =>
+      Array.from(new Set([...data, ...corteData].map(d => d[field]).filter((v): v is string => !!v))).sort();
+    return {
+      categoria: values('categoria'),
+      subCategoria: values('subCategoria'),
+      colecao: values('colecao'),
+      modelo: values('modelo'),
+      cor: values('cor'),
+      tamanho: sortSizes(values('tamanho').map(name => ({ name, value: 0 })), sizeOrder).map(s => s.name),
+    };
+  }, [data, corteData, sizeOrder]);
+
+  // 2. Product attributes of each cut code, to filter CorteData by product dimensions
+  const cutAttributeMap = useMemo(() => cutAttributes(data, corteData), [data, corteData]);
+
+  // Same-store view: stores opened within 12 months of the period start are left out
+  const openedRecently = useMemo(
+    () => dateRange.start ? newStores(stores, dateRange.start) : new Set<string>(),
+    [stores, dateRange.start]
+  );
 
   // 3. Filter SALES Data
-  const filteredSalesData = useMemo(() => {
+  // Every filter except the date range, so the previous-year overlay can reuse it
+  const matchesFilters = useMemo(() => {
     const term = searchCode.toLowerCase().trim();
 
-    return data.filter(item => {
-      const storeMatch = selectedStore === 'all' || item.loja === selectedStore;
-      const catMatch = selectedCategory === 'all' || item.categoria === selectedCategory;
-      const colMatch = selectedColecao === 'all' || item.colecao === selectedColecao;
-      
-      let dateMatch = true;
-      if (dateRange.start && item.data < `${dateRange.start}-01`) dateMatch = false;
-      if (dateRange.end && item.data > `${dateRange.end}-31`) dateMatch = false;
+    return (item: CleanedSaleRecord) => {
+      const storeMatch = !sameStoreOnly || isComparableStore(openedRecently, item.loja);
 
       let codeMatch = true;
       if (term) {
         codeMatch = String(item.codigo).toLowerCase().includes(term);
       }
 
-      return storeMatch && catMatch && colMatch && dateMatch && codeMatch;
-    });
-  }, [data, selectedStore, selectedCategory, selectedColecao, dateRange, searchCode]);
+      return storeMatch && codeMatch && matchesDimensionFilters(item, dimensionFilters);
+    };
+  }, [sameStoreOnly, openedRecently, searchCode, dimensionFilters]);
+
+  const filteredSalesData = useMemo(
+    () => data.filter(item => matchesFilters(item) && inRange(item.data, dateRange)),
+    [data, matchesFilters, dateRange]
+  );
+
+  const activeComparison = useMemo(
+    () => comparisonRange(comparisonMode, dateRange, customComparison),
+    [comparisonMode, dateRange, customComparison]
+  );
+
+  // null when comparison is off
+  const comparisonSalesData = useMemo(
+    () => activeComparison ? data.filter(item => matchesFilters(item) && inRange(item.data, activeComparison)) : null,
+    [data, matchesFilters, activeComparison]
+  );
 
-  // 4. Filter CORTE Data (Apply same filters: Category, Collection, Code Search)
+  const previousYearSalesData = useMemo(() => {
+    if (!dateRange.start || !dateRange.end) return [];
+    const previous = { start: addYears(dateRange.start, -1), end: addYears(dateRange.end, -1) };
+    return data.filter(item => matchesFilters(item) && inRange(item.data, previous));
+  }, [data, matchesFilters, dateRange]);
+
+  // 4. Filter CORTE Data (Apply same filters: product dimensions, Code Search; cut has no store)
   const filteredCorteData = useMemo(() => {
     const term = searchCode.toLowerCase().trim();
 
     // If no structural filters are applied, return all (unless searching code)
-    if (selectedCategory === 'all' && selectedColecao === 'all' && !term) {
+    if (!term && !hasDimensionFilters(dimensionFilters)) {
       return corteData;
     }
 
     return corteData.filter(item => {
       const key = String(item.codigo).trim();
-      const meta = productMetaMap.get(key);
-      
-      const itemCat = meta?.cat || 'Outros';
-      const itemCol = meta?.col || 'N/A';
-
-      const catMatch = selectedCategory === 'all' || itemCat === selectedCategory;
-      const colMatch = selectedColecao === 'all' || itemCol === selectedColecao;
-      
+      const attributes = cutAttributeMap.get(key);
+
       let codeMatch = true;
       if (term) {
         codeMatch = key.toLowerCase().includes(term);
       }
 
-      return catMatch && colMatch && codeMatch;
+      return codeMatch && cutMatchesDimensionFilters(item, dimensionFilters, attributes);
     });
-  }, [corteData, productMetaMap, selectedCategory, selectedColecao, searchCode]);
+  }, [corteData, cutAttributeMap, searchCode, dimensionFilters]);
 
 
-  const valueKey = metricMode === 'revenue' ? 'valorTotal' : 'quantidade';
+  const valueKey = METRIC_VALUE_KEYS[metricMode];
 
   // Aggregations & Metrics (Using Filtered Lists for both Sales and Cuts)
   const metrics = useMemo(() => calculateMetrics(filteredSalesData, filteredCorteData), [filteredSalesData, filteredCorteData]);
+  const comparisonMetrics = useMemo(
+    () => comparisonSalesData ? calculateMetrics(comparisonSalesData, filteredCorteData) : null,
+    [comparisonSalesData, filteredCorteData]
+  );
+
+  // Breakdown of the period plus, when comparing, each group's value in the comparison period
+  const breakdown = (groupKey: keyof CleanedSaleRecord) => {
+    const current = aggregateBy(filteredSalesData, groupKey, valueKey);
+    return comparisonSalesData ? addComparison(current, aggregateBy(comparisonSalesData, groupKey, valueKey)) : current;
+  };
   
-  const byStore = useMemo(() => aggregateBy(filteredSalesData, 'loja', valueKey), [filteredSalesData, valueKey]);
-  const byCategory = useMemo(() => aggregateBy(filteredSalesData, 'categoria', valueKey), [filteredSalesData, valueKey]);
-  const bySubCategory = useMemo(() => aggregateBy(filteredSalesData, 'subCategoria', valueKey), [filteredSalesData, valueKey]);
-  const byColor = useMemo(() => aggregateBy(filteredSalesData, 'cor', valueKey), [filteredSalesData, valueKey]);
-  const byColecao = useMemo(() => aggregateBy(filteredSalesData, 'colecao', valueKey), [filteredSalesData, valueKey]);
-  const byModelo = useMemo(() => aggregateBy(filteredSalesData, 'modelo', valueKey), [filteredSalesData, valueKey]);
+  const byStore = useMemo(() => breakdown('loja'), [filteredSalesData, comparisonSalesData, valueKey]);
+  const returnsByStore = useMemo(() => 
+    byStore.filter(s => (s.returns || 0) > 0).sort((a, b) => (b.returnRate || 0) - (a.returnRate || 0)), 
+  [byStore]);
+  const byStoreDimension = useMemo(() => breakdown(storeDimension), [filteredSalesData, comparisonSalesData, storeDimension, valueKey]);
+  const byCategory = useMemo(() => breakdown('categoria'), [filteredSalesData, comparisonSalesData, valueKey]);
+  // A pie can't show losses or net returns, so categories at or below zero are left out and listed under it
+  const pieCategories = useMemo(() => byCategory.filter(c => c.value > 0), [byCategory]);
+  const hiddenCategories = useMemo(() => byCategory.filter(c => c.value <= 0), [byCategory]);
+  const bySubCategory = useMemo(() => breakdown('subCategoria'), [filteredSalesData, comparisonSalesData, valueKey]);
+  const byColor = useMemo(() => breakdown('cor'), [filteredSalesData, comparisonSalesData, valueKey]);
+  const byColecao = useMemo(() => breakdown('colecao'), [filteredSalesData, comparisonSalesData, valueKey]);
+  const byModelo = useMemo(() => breakdown('modelo'), [filteredSalesData, comparisonSalesData, valueKey]);
   
   const bySize = useMemo(() => {
-    const rawSizes = aggregateBy(filteredSalesData, 'tamanho', valueKey);
-    return sortSizes(rawSizes);
-  }, [filteredSalesData, valueKey]);
+    const rawSizes = breakdown('tamanho');
+    return sortSizes(rawSizes, sizeOrder);
+  }, [filteredSalesData, comparisonSalesData, valueKey, sizeOrder]);
+
+  // ABC class of each reference, ranked by the selected metric; cut-only references are C
+  const abcByCode = useMemo(() => new Map(
+    classifyAbc(aggregateBy(filteredSalesData, 'codigo', valueKey), abcThresholds).map(item => [item.name, item.abc])
+  ), [filteredSalesData, valueKey, abcThresholds]);
+
+  // Coverage looks at sales before the period start too, so only the end of the range applies
+  const coverageEnd = dateRange.end || dateBounds.end;
+  const coverageSalesData = useMemo(
+    () => data.filter(item => matchesFilters(item) && item.data <= coverageEnd),
+    [data, matchesFilters, coverageEnd]
+  );
+  const skuCoverage = useMemo(
+    () => new Map(computeStockCoverage(coverageSalesData, 'sku', velocityWeeks, coverageEnd).map(c => [c.id, c])),
+    [coverageSalesData, velocityWeeks, coverageEnd]
+  );
+
+  // Forecast and collection lifecycle look at the whole history, the date range does not apply
+  const historySalesData = useMemo(() => data.filter(matchesFilters), [data, matchesFilters]);
+
+  const skuDailySales = useMemo(
+    () => new Map(Array.from(skuCoverage.values()).map(c => [c.id, c.vendaDiaria])),
+    [skuCoverage]
+  );
 
   // Table Data Processing
   const tableData: DetailedTableRow[] = useMemo(() => {
     // Pass both FILTERED lists to the table generator
-    const prepared = prepareDataTable(filteredSalesData, filteredCorteData);
+    const prepared = prepareDataTable(filteredSalesData, filteredCorteData)
+      .map(row => ({
+        ...row,
+        curvaAbc: abcByCode.get(row.codigo) || 'C' as AbcClass,
+        estoqueAtual: skuCoverage.get(row.id)?.estoque ?? 0,
+        diasCobertura: skuCoverage.get(row.id)?.diasCobertura ?? Infinity,
+      }))
+      .filter(row => abcFilter === 'all' || row.curvaAbc === abcFilter);
 
     return prepared.sort((a, b) => {
       const aValue = a[sortConfig.key];
@@ -171,7 +368,12 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
         return bString.localeCompare(aString);
       }
     });
-  }, [filteredSalesData, filteredCorteData, sortConfig]);
+  }, [filteredSalesData, filteredCorteData, sortConfig, abcByCode, abcFilter, skuCoverage]);
+
+  const sizeGrid = useMemo(
+    () => gridCodigo !== null ? buildSizeGrid(tableData, gridCodigo, sizeOrder) : null,
+    [tableData, gridCodigo, sizeOrder]
+  );
 
   // Pagination
   const totalPages = Math.ceil(tableData.length / rowsPerPage);
@@ -186,8 +388,40 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
     }
   };
 
+  const handleAbcThresholds = (next: AbcThresholds) => {
+    setAbcThresholds(next);
+    saveAbcThresholds(next);
+  };
+
+  const handleSaveStores = (next: StoreRecord[]) => {
+    setStores(next);
+    saveStores(next);
+    setShowStores(false);
+  };
+
+  // Chart click: `multi` (Ctrl/Cmd-click) adds to the selection instead of replacing it
+  const selectFilterValue = (field: FilterField, value: string, multi: boolean) => {
+    setDimensionFilters(prev => toggleFilterValue(prev, field, value, multi));
+    setCurrentPage(1);
+  };
+
+  const filterOnClick = (field: FilterField) => (entry: any, _index: number, event: React.MouseEvent) => {
+    const value = entry?.payload?.name ?? entry?.name;
+    if (value === undefined) return;
+    selectFilterValue(field, String(value), event.ctrlKey || event.metaKey);
+  };
+
+  // Value and change handler of one header multi-select
+  const filterProps = (field: FilterField) => ({
+    value: dimensionFilters[field],
+    onChange: (filter: DimensionFilter | undefined) => {
+      setDimensionFilters(prev => setDimensionFilter(prev, field, filter));
+      setCurrentPage(1);
+    },
+  });
+
   const handleSort = (key: SortKey) => {
-    let direction: SortDirection = 'asc';
+    let direction: TableSort['direction'] = 'asc';
     if (sortConfig.key === key && sortConfig.direction === 'asc') {
       direction = 'desc';
     }
@@ -196,7 +430,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
   };
 
   const formatValue = (val: number) => {
-    return metricMode === 'revenue' ? formatCurrency(val) : formatNumber(val);
+    return metricMode === 'quantity' ? formatNumber(val) : formatCurrency(val);
   };
 
   // ... (Keep existing chart render functions: CustomTooltip, renderCustomizedLabel, etc.) ...
@@ -206,9 +440,29 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
         <div className="bg-white p-3 border border-gray-200 shadow-lg rounded text-sm z-50">
           <p className="font-bold mb-1">{label}</p>
           <p className="text-[#adb85c] font-semibold">{formatValue(payload[0].value)}</p>
-          {metricMode === 'revenue' && payload[0].payload.count !== undefined && (
+          {metricMode !== 'quantity' && payload[0].payload.count !== undefined && (
              <p className="text-gray-500 text-xs mt-1">Qtd: {payload[0].payload.count} itens</p>
           )}
+          {metricMode === 'margin' && payload[0].payload.markup > 0 && (
+             <p className="text-gray-500 text-xs mt-1">
+               Margem {payload[0].payload.marginRate.toFixed(1)}% · Markup {payload[0].payload.markup.toFixed(2)}x
+             </p>
+          )}
+          {payload[0].payload.comparison !== undefined && (
+             <p className="text-gray-500 text-xs mt-1">
+               Comparação: {formatValue(payload[0].payload.comparison)}
+               {payload[0].payload.comparison !== 0 && (
+                 <span className={payload[0].payload.value >= payload[0].payload.comparison ? 'text-green-600' : 'text-red-500'}>
+                   {' '}({payload[0].payload.value >= payload[0].payload.comparison ? '+' : ''}{(((payload[0].payload.value - payload[0].payload.comparison) / Math.abs(payload[0].payload.comparison)) * 100).toFixed(1)}%)
+                 </span>
+               )}
+             </p>
+          )}
+          {payload[0].payload.returns > 0 && (
+             <p className="text-red-500 text-xs mt-1">
+               Devoluções: {formatValue(payload[0].payload.returns)} ({payload[0].payload.returnRate.toFixed(1)}% do bruto)
+             </p>
+          )}
         </div>
       );
     }
@@ -302,77 +556,59 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                   <Box className="w-3.5 h-3.5" />
                   Qtd
                 </button>
+                <button
+                  onClick={() => setMetricMode('margin')}
+                  className={`flex items-center gap-1 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${metricMode === 'margin' ? 'bg-white text-[#adb85c] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  title={metrics.costCoverage === 0 ? 'Sem custo unitário: importe um catálogo ou uma coluna de custo' : undefined}
+                >
+                  <Coins className="w-3.5 h-3.5" />
+                  Margem
+                </button>
               </div>
 
               <div className="h-6 w-px bg-gray-200 hidden md:block"></div>
 
               {/* Date & Filters */}
-              <div className="flex items-center gap-2 bg-gray-50 px-3 py-1.5 rounded-lg border border-gray-200">
-                <Calendar className="w-4 h-4 text-gray-500" />
-                <input 
-                  type="month" 
-                  value={dateRange.start} 
-                  min={minAllowedDate}
-                  max={maxAllowedDate}
-                  onChange={(e) => setDateRange(prev => ({ ...prev, start: e.target.value }))}
-                  className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 w-32 p-0 cursor-pointer"
-                />
-                <span className="text-gray-400">-</span>
-                <input 
-                  type="month" 
-                  value={dateRange.end} 
-                  min={minAllowedDate}
-                  max={maxAllowedDate}
-                  onChange={(e) => setDateRange(prev => ({ ...prev, end: e.target.value }))}
-                  className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 w-32 p-0 cursor-pointer"
-                />
-              </div>
+              <DateRangePicker value={dateRange} bounds={dateBounds} dates={saleDates} onChange={setDateRange} />
+
+              <ComparisonSelector
+                mode={comparisonMode}
+                custom={customComparison}
+                resolved={activeComparison}
+                bounds={dateBounds}
+                onModeChange={setComparisonMode}
+                onCustomChange={setCustomComparison}
+              />
 
               <div className="flex items-center gap-2 bg-gray-50 px-3 py-1.5 rounded-lg border border-gray-200">
                 <Filter className="w-4 h-4 text-gray-500" />
-                <select 
-                  value={selectedStore} 
-                  onChange={(e) => setSelectedStore(e.target.value)}
-                  className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 font-medium cursor-pointer w-24 md:w-auto"
-                >
-                  <option value="all">Todas as Lojas</option>
-                  {storeOptions.map(store => (
-                    <option key={store} value={store}>{store}</option>
-                  ))}
-                </select>
-
-                <div className="w-px h-4 bg-gray-300 mx-1"></div>
-
-                <select 
-                  value={selectedCategory} 
-                  onChange={(e) => setSelectedCategory(e.target.value)}
-                  className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 font-medium cursor-pointer w-24 md:w-auto"
-                >
-                  <option value="all">Todas as Categorias</option>
-                  {categoryOptions.map(cat => (
-                    <option key={cat} value={cat}>{cat}</option>
-                  ))}
-                </select>
-
-                <div className="w-px h-4 bg-gray-300 mx-1"></div>
-
-                <select 
-                  value={selectedColecao} 
-                  onChange={(e) => setSelectedColecao(e.target.value)}
-                  className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 font-medium cursor-pointer w-24 md:w-auto"
-                >
-                  <option value="all">Todas as Coleções</option>
-                  {colecaoOptions.map(col => (
-                    <option key={col} value={col}>{col}</option>
-                  ))}
-                </select>
+                <MultiSelectFilter label="Loja" allLabel="Todas as Lojas" options={storeOptions} {...filterProps('loja')} />
+
+                {stores.length > 0 && (
+                  <>
+                    <div className="w-px h-4 bg-gray-300 mx-1"></div>
+
+                    <MultiSelectFilter label="Região" allLabel="Todas as Regiões" options={storeAttributeOptions.regiao} {...filterProps('regiao')} />
+                    <MultiSelectFilter label="Canal" allLabel="Todos os Canais" options={storeAttributeOptions.canal} {...filterProps('canal')} />
+                    <MultiSelectFilter label="Porte" allLabel="Todos os Portes" options={storeAttributeOptions.porte} {...filterProps('porte')} />
+
+                    <label className="flex items-center gap-1 text-sm text-gray-700 whitespace-nowrap cursor-pointer" title="Exclui lojas abertas há menos de 12 meses no início do período">
+                      <input
+                        type="checkbox"
+                        checked={sameStoreOnly}
+                        onChange={(e) => setSameStoreOnly(e.target.checked)}
+                        className="rounded border-gray-300 text-[#adb85c] focus:ring-[#adb85c]"
+                      />
+                      Lojas comparáveis
+                    </label>
+                  </>
+                )}
 
-                {(selectedStore !== 'all' || selectedCategory !== 'all' || selectedColecao !== 'all' || searchCode !== '') && (
+                {(sameStoreOnly || searchCode !== '' || hasDimensionFilters(dimensionFilters)) && (
                   <button 
                     onClick={() => { 
-                      setSelectedStore('all'); 
-                      setSelectedCategory('all'); 
-                      setSelectedColecao('all');
+                      setSameStoreOnly(false);
+                      setDimensionFilters({});
                       setSearchCode(''); 
                     }}
                     className="ml-2 text-gray-400 hover:text-red-500"
@@ -383,11 +619,66 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                 )}
               </div>
 
+              <SavedViewsMenu currentView={currentView} bounds={dateBounds} onApply={applyView} />
+
+              <button
+                onClick={() => setShowStores(true)}
+                className="flex items-center gap-1 text-sm text-gray-600 hover:text-[#adb85c] px-2"
+                title="Cadastro de lojas (região, canal, porte, abertura)"
+              >
+                <Store className="w-4 h-4" />
+                Lojas
+              </button>
+
               <div className="h-6 w-px bg-gray-200 hidden md:block"></div>
               
               <button onClick={onReset} className="text-xs text-gray-500 hover:text-red-600 underline px-2">Sair</button>
             </div>
           </div>
+
+          <div className="flex flex-wrap items-center gap-3 md:pt-3">
+            <div className="flex flex-wrap items-center gap-x-2 gap-y-1 bg-gray-50 px-3 py-1.5 rounded-lg border border-gray-200">
+              <Tag className="w-4 h-4 text-gray-500" />
+              <MultiSelectFilter label="Categoria" allLabel="Todas as Categorias" options={productOptions.categoria} {...filterProps('categoria')} />
+              <div className="w-px h-4 bg-gray-300 mx-1"></div>
+              <MultiSelectFilter label="Sub-Categoria" allLabel="Todas as Sub-Categorias" options={productOptions.subCategoria} {...filterProps('subCategoria')} />
+              <div className="w-px h-4 bg-gray-300 mx-1"></div>
+              <MultiSelectFilter label="Coleção" allLabel="Todas as Coleções" options={productOptions.colecao} {...filterProps('colecao')} />
+              <div className="w-px h-4 bg-gray-300 mx-1"></div>
+              <MultiSelectFilter label="Modelo" allLabel="Todos os Modelos" options={productOptions.modelo} {...filterProps('modelo')} />
+              <div className="w-px h-4 bg-gray-300 mx-1"></div>
+              <MultiSelectFilter label="Cor" allLabel="Todas as Cores" options={productOptions.cor} {...filterProps('cor')} />
+              <div className="w-px h-4 bg-gray-300 mx-1"></div>
+              <MultiSelectFilter label="Tamanho" allLabel="Todos os Tamanhos" options={productOptions.tamanho} {...filterProps('tamanho')} />
+            </div>
+          </div>
+
+          {hasDimensionFilters(dimensionFilters) && (
+            <div className="flex flex-wrap items-center gap-2 md:pt-3">
+              <span className="text-xs text-gray-500">Filtros ativos:</span>
+              {FILTER_FIELDS.flatMap(field => (dimensionFilters[field.key]?.values || []).map(value => (
+                <span
+                  key={`${field.key}-${value}`}
+                  className={`flex items-center gap-1 pl-2.5 pr-1.5 py-1 rounded-full text-xs font-medium border ${
+                    dimensionFilters[field.key]?.mode === 'exclude'
+                      ? 'bg-red-50 text-red-600 border-red-200'
+                      : 'bg-[#f4f6e6] text-[#8d9648] border-[#adb85c]/40'
+                  }`}
+                >
+                  {field.label}: {dimensionFilters[field.key]?.mode === 'exclude' ? 'exceto ' : ''}{value}
+                  <button
+                    onClick={() => setDimensionFilters(removeFilterValue(dimensionFilters, field.key, value))}
+                    className="hover:text-red-500"
+                    title="Remover filtro"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              )))}
+              <button onClick={() => setDimensionFilters({})} className="text-xs text-gray-500 hover:underline">Limpar</button>
+              <span className="text-xs text-gray-400 hidden md:inline">Ctrl+clique num gráfico seleciona vários valores</span>
+            </div>
+          )}
         </div>
       </header>
 
@@ -398,8 +689,16 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
           <div className={`p-6 rounded-xl shadow-sm border transition-all bg-white border-[#adb85c]/30 ring-1 ring-[#adb85c]/10`}>
             <div className="flex items-start justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-500">Faturamento Total</p>
+                <p className="text-sm font-medium text-gray-500">Faturamento Líquido</p>
                 <h3 className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(metrics.totalRevenue)}</h3>
+                {comparisonMetrics && (
+                  <DeltaBadge current={metrics.totalRevenue} previous={comparisonMetrics.totalRevenue} format={formatCurrency} />
+                )}
+                {metrics.returnsRevenue > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Bruto {formatCurrency(metrics.grossRevenue)} · <span className="text-red-500">Devoluções {formatCurrency(metrics.returnsRevenue)} ({metrics.returnRate.toFixed(1)}%)</span>
+                  </p>
+                )}
               </div>
               <div className="p-2 bg-[#f4f6e6] rounded-lg text-[#adb85c]">
                 <TrendingUp className="w-6 h-6" />
@@ -412,6 +711,12 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
               <div>
                 <p className="text-sm font-medium text-gray-500">Peças Vendidas (Período)</p>
                 <h3 className="text-2xl font-bold text-gray-900 mt-1">{formatNumber(metrics.totalItems)}</h3>
+                {comparisonMetrics && (
+                  <DeltaBadge current={metrics.totalItems} previous={comparisonMetrics.totalItems} format={formatNumber} />
+                )}
+                {metrics.returnedItems > 0 && (
+                  <p className="text-xs text-red-500 mt-1">{formatNumber(metrics.returnedItems)} peças devolvidas</p>
+                )}
               </div>
               <div className="p-2 bg-[#f4f6e6] rounded-lg text-[#adb85c]">
                 <Tag className="w-6 h-6" />
@@ -419,6 +724,60 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
             </div>
           </div>
 
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex items-start justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-500">Ticket Médio</p>
+              <h3 className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(metrics.averageTicket)}</h3>
+              {comparisonMetrics && (
+                <DeltaBadge current={metrics.averageTicket} previous={comparisonMetrics.averageTicket} format={formatCurrency} />
+              )}
+            </div>
+            <div className="p-2 bg-[#f4f6e6] rounded-lg text-[#adb85c]">
+              <Receipt className="w-6 h-6" />
+            </div>
+          </div>
+
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex items-start justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-500">Margem Bruta</p>
+              {metrics.costCoverage > 0 ? (
+                <>
+                  <h3 className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(metrics.grossMargin)}</h3>
+                  {comparisonMetrics && (
+                    <DeltaBadge current={metrics.grossMargin} previous={comparisonMetrics.grossMargin} format={formatCurrency} />
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {metrics.marginRate.toFixed(1)}% de margem · Markup {metrics.markup.toFixed(2)}x
+                  </p>
+                  {metrics.costCoverage < 99.5 && (
+                    <p className="text-xs text-yellow-600 mt-1">Custo conhecido para {metrics.costCoverage.toFixed(0)}% do faturamento</p>
+                  )}
+                </>
+              ) : (
+                <>
+                  <h3 className="text-2xl font-bold text-gray-300 mt-1">-</h3>
+                  <p className="text-xs text-gray-400 mt-1">Sem custo unitário (catálogo ou coluna de custo)</p>
+                </>
+              )}
+            </div>
+            <div className="p-2 bg-[#f4f6e6] rounded-lg text-[#adb85c]">
+              <Coins className="w-6 h-6" />
+            </div>
+          </div>
+
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex items-start justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-500">Estoque (Peças)</p>
+              <h3 className="text-2xl font-bold text-gray-900 mt-1">{formatNumber(metrics.totalStock)}</h3>
+              {comparisonMetrics && (
+                <DeltaBadge current={metrics.totalStock} previous={comparisonMetrics.totalStock} format={formatNumber} />
+              )}
+            </div>
+            <div className="p-2 bg-[#f4f6e6] rounded-lg text-[#adb85c]">
+              <Package className="w-6 h-6" />
+            </div>
+          </div>
+
           <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex items-start justify-between">
             <div>
               <p className="text-sm font-medium text-gray-500">Peças Cortadas (Filtro)</p>
@@ -426,11 +785,21 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                   {formatNumber(metrics.totalCut)}
                </h3>
                {metrics.totalCut > 0 ? (
-                 <p className={`text-xs mt-1 font-medium ${
-                     metrics.totalItems > metrics.totalCut ? 'text-purple-600' : 'text-gray-500'
-                 }`}>
-                    {((metrics.totalItems / metrics.totalCut) * 100).toFixed(1)}% de giro (venda/corte)
-                 </p>
+                 <>
+                   <p className={`text-xs mt-1 font-medium ${
+                       metrics.totalItems > metrics.totalCut ? 'text-purple-600' : 'text-gray-500'
+                   }`}>
+                      {((metrics.totalItems / metrics.totalCut) * 100).toFixed(1)}% de giro (venda/corte)
+                   </p>
+                   {comparisonMetrics && (
+                     <DeltaBadge
+                       current={(metrics.totalItems / metrics.totalCut) * 100}
+                       previous={(comparisonMetrics.totalItems / metrics.totalCut) * 100}
+                       format={formatNumber}
+                       points
+                     />
+                   )}
+                 </>
                ) : (
                  <p className="text-xs text-red-400 mt-1">Sem corte para este filtro</p>
                )}
@@ -441,7 +810,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
           </div>
 
           <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex items-start justify-between">
-            <div>
+            <div className="flex-1">
               <p className="text-sm font-medium text-gray-500">Giro (Venda / Estoque)</p>
               <div className="flex items-baseline gap-2 mt-1">
                  <h3 className="text-2xl font-bold text-gray-900">
@@ -452,6 +821,9 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
               <div className="w-full bg-gray-200 rounded-full h-1.5 mt-2">
                 <div className="bg-[#adb85c] h-1.5 rounded-full" style={{ width: `${Math.min(metrics.sellThroughRate, 100)}%` }}></div>
               </div>
+              {comparisonMetrics && (
+                <DeltaBadge current={metrics.sellThroughRate} previous={comparisonMetrics.sellThroughRate} format={formatNumber} points />
+              )}
             </div>
             <div className="p-2 bg-[#f4f6e6] rounded-lg text-[#adb85c]">
               <Percent className="w-6 h-6" />
@@ -459,10 +831,19 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
           </div>
         </div>
 
+        <SalesTimeline
+          data={filteredSalesData}
+          previousData={previousYearSalesData}
+          range={dateRange}
+          valueKey={valueKey}
+          formatValue={formatValue}
+          onSelectRange={setDateRange}
+        />
+
         {/* Charts Section */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-            <h3 className="text-lg font-bold text-gray-800 mb-6">{metricMode === 'revenue' ? 'Faturamento por Loja' : 'Vendas (Qtd) por Loja'}</h3>
+            <h3 className="text-lg font-bold text-gray-800 mb-6">{METRIC_TITLES[metricMode]} por Loja</h3>
             <div className="h-[400px] w-full">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={byStore.slice(0, 10)} layout="vertical" margin={{ top: 5, right: 60, left: 40, bottom: 5 }}>
@@ -470,30 +851,91 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                   <XAxis type="number" hide />
                   <YAxis type="category" dataKey="name" width={100} tick={{fontSize: 11}} interval={0} />
                   <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="value" fill={metricMode === 'revenue' ? BRAND_PRIMARY : "#3b82f6"} radius={[0, 4, 4, 0]} barSize={25}>
+                  <Bar dataKey="value" fill={metricMode === 'quantity' ? "#3b82f6" : BRAND_PRIMARY} radius={[0, 4, 4, 0]} barSize={25} cursor="pointer" onClick={filterOnClick('loja')}>
                     {byStore.map((entry, index) => (<Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />))}
                     <LabelList dataKey="value" content={renderHorizontalBarLabel} />
                   </Bar>
+                  {comparisonSalesData && <Bar dataKey="comparison" name="Comparação" fill={COMPARISON_COLOR} radius={[0, 4, 4, 0]} barSize={10} />}
                 </BarChart>
               </ResponsiveContainer>
             </div>
           </div>
           <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-            <h3 className="text-lg font-bold text-gray-800 mb-6">{metricMode === 'revenue' ? 'Faturamento por Categoria' : 'Vendas (Qtd) por Categoria'}</h3>
-            <div className="h-[400px] w-full flex justify-center">
+            <h3 className="text-lg font-bold text-gray-800 mb-6">{METRIC_TITLES[metricMode]} por Categoria</h3>
+            <div className={`${hiddenCategories.length > 0 ? 'h-[372px]' : 'h-[400px]'} w-full flex justify-center`}>
               <ResponsiveContainer width="100%" height="100%">
                 <PieChart margin={{ top: 20, right: 40, left: 40, bottom: 20 }}>
-                  <Pie data={byCategory} cx="50%" cy="50%" innerRadius={60} outerRadius={100} fill={BRAND_PRIMARY} paddingAngle={2} dataKey="value" label={renderCustomizedLabel} labelLine={true}>
-                    {byCategory.map((entry, index) => (<Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />))}
+                  <Pie data={pieCategories} cx="50%" cy="50%" innerRadius={60} outerRadius={100} fill={BRAND_PRIMARY} paddingAngle={2} dataKey="value" label={renderCustomizedLabel} labelLine={true} cursor="pointer" onClick={filterOnClick('categoria')}>
+                    {pieCategories.map((entry, index) => (<Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />))}
                   </Pie>
                   <Tooltip content={<CustomTooltip />} />
                   <Legend verticalAlign="bottom" height={36} iconType="circle" />
                 </PieChart>
               </ResponsiveContainer>
             </div>
+            {hiddenCategories.length > 0 && (
+              <p className="text-xs text-gray-400 mt-2 truncate" title={hiddenCategories.map(c => `${c.name}: ${formatValue(c.value)}`).join('\n')}>
+                Fora do gráfico (valor zero ou negativo): {hiddenCategories.map(c => `${c.name} (${formatValue(c.value)})`).join(', ')}
+              </p>
+            )}
           </div>
         </div>
 
+        {returnsByStore.length > 0 && (
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+            <h3 className="text-lg font-bold text-gray-800 mb-6">Taxa de Devolução por Loja ({metricMode === 'quantity' ? 'Qtd' : metricMode === 'margin' ? 'Margem' : 'R$'})</h3>
+            <div className="w-full" style={{ height: Math.max(160, returnsByStore.slice(0, 15).length * 32) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={returnsByStore.slice(0, 15)} layout="vertical" margin={{ top: 5, right: 60, left: 40, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={false} stroke="#eee" />
+                  <XAxis type="number" hide />
+                  <YAxis type="category" dataKey="name" width={100} tick={{fontSize: 11}} interval={0} />
+                  <Tooltip formatter={(val: number) => [`${val.toFixed(1)}%`, 'Devolução']} />
+                  <Bar dataKey="returnRate" fill="#f87171" radius={[0, 4, 4, 0]} barSize={18} cursor="pointer" onClick={filterOnClick('loja')}>
+                    <LabelList dataKey="returnRate" position="right" formatter={(val: number) => `${val.toFixed(1)}%`} style={{fontSize: '10px', fill: '#666'}} />
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
+        {stores.length > 0 && (
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+              <h3 className="text-lg font-bold text-gray-800">
+                {METRIC_TITLES[metricMode]} por {STORE_DIMENSIONS.find(d => d.key === storeDimension)?.label}
+              </h3>
+              <div className="flex bg-gray-100 p-1 rounded-lg">
+                {STORE_DIMENSIONS.map(d => (
+                  <button
+                    key={d.key}
+                    onClick={() => setStoreDimension(d.key)}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${storeDimension === d.key ? 'bg-white text-[#adb85c] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {d.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="w-full" style={{ height: Math.max(160, byStoreDimension.length * 40) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={byStoreDimension} layout="vertical" margin={{ top: 5, right: 60, left: 40, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={false} stroke="#eee" />
+                  <XAxis type="number" hide />
+                  <YAxis type="category" dataKey="name" width={100} tick={{fontSize: 11}} interval={0} />
+                  <Tooltip content={<CustomTooltip />} />
+                  <Bar dataKey="value" radius={[0, 4, 4, 0]} barSize={22} cursor="pointer" onClick={filterOnClick(storeDimension)}>
+                    {byStoreDimension.map((entry, index) => (<Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />))}
+                    <LabelList dataKey="value" content={renderHorizontalBarLabel} />
+                  </Bar>
+                  {comparisonSalesData && <Bar dataKey="comparison" name="Comparação" fill={COMPARISON_COLOR} radius={[0, 4, 4, 0]} barSize={10} />}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
             <h3 className="text-lg font-bold text-gray-800 mb-6">Top Coleções</h3>
@@ -504,9 +946,10 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                   <XAxis dataKey="name" angle={-45} textAnchor="end" interval={0} height={70} tick={{fontSize: 10}} />
                   <YAxis hide />
                   <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="value" fill="#ffc658" radius={[4, 4, 0, 0]}>
+                  <Bar dataKey="value" fill="#ffc658" radius={[4, 4, 0, 0]} cursor="pointer" onClick={filterOnClick('colecao')}>
                      <LabelList dataKey="value" content={renderVerticalBarLabel} />
                   </Bar>
+                  {comparisonSalesData && <Bar dataKey="comparison" name="Comparação" fill={COMPARISON_COLOR} radius={[4, 4, 0, 0]} />}
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -521,12 +964,13 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                   <XAxis type="number" hide />
                   <YAxis type="category" dataKey="name" width={80} tick={{fontSize: 10}} interval={0} />
                   <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="value" radius={[0, 4, 4, 0]} barSize={20}>
+                  <Bar dataKey="value" radius={[0, 4, 4, 0]} barSize={20} cursor="pointer" onClick={filterOnClick('modelo')}>
                     {byModelo.slice(0, 10).map((entry, index) => (
                       <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                     ))}
                     <LabelList dataKey="value" content={renderHorizontalBarLabel} />
                   </Bar>
+                  {comparisonSalesData && <Bar dataKey="comparison" name="Comparação" fill={COMPARISON_COLOR} radius={[0, 4, 4, 0]} barSize={10} />}
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -543,9 +987,10 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                   <XAxis dataKey="name" angle={-45} textAnchor="end" interval={0} height={70} tick={{fontSize: 10}} />
                   <YAxis hide />
                   <Tooltip content={<CustomTooltip />} />
-                  <Bar dataKey="value" fill="#82ca9d" radius={[4, 4, 0, 0]}>
+                  <Bar dataKey="value" fill="#82ca9d" radius={[4, 4, 0, 0]} cursor="pointer" onClick={filterOnClick('subCategoria')}>
                      <LabelList dataKey="value" content={renderBarLabel} />
                   </Bar>
+                  {comparisonSalesData && <Bar dataKey="comparison" name="Comparação" fill={COMPARISON_COLOR} radius={[4, 4, 0, 0]} />}
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -557,9 +1002,10 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                 <ResponsiveContainer width="100%" height="100%">
                   <BarChart data={bySize}>
                     <Tooltip content={<CustomTooltip />} />
-                    <Bar dataKey="value" fill="#FFBB28" radius={[2,2,0,0]}>
-                      <LabelList dataKey="value" position="top" formatter={(val: number) => metricMode === 'revenue' ? formatNumber(val) : val} style={{fontSize: '9px', fill: '#666'}} />
+                    <Bar dataKey="value" fill="#FFBB28" radius={[2,2,0,0]} cursor="pointer" onClick={filterOnClick('tamanho')}>
+                      <LabelList dataKey="value" position="top" formatter={(val: number) => metricMode === 'quantity' ? val : formatNumber(val)} style={{fontSize: '9px', fill: '#666'}} />
                     </Bar>
+                    {comparisonSalesData && <Bar dataKey="comparison" name="Comparação" fill={COMPARISON_COLOR} radius={[2,2,0,0]} />}
                     <XAxis dataKey="name" tick={{fontSize: 10}} interval={0} />
                   </BarChart>
                 </ResponsiveContainer>
@@ -573,9 +1019,10 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                     <Tooltip content={<CustomTooltip />} />
                     <XAxis type="number" hide />
                     <YAxis type="category" dataKey="name" width={70} tick={{fontSize: 10}} />
-                    <Bar dataKey="value" fill="#FF8042" radius={[0,4,4,0]}>
+                    <Bar dataKey="value" fill="#FF8042" radius={[0,4,4,0]} cursor="pointer" onClick={filterOnClick('cor')}>
                       <LabelList dataKey="value" content={renderHorizontalBarLabel} />
                     </Bar>
+                    {comparisonSalesData && <Bar dataKey="comparison" name="Comparação" fill={COMPARISON_COLOR} radius={[0,4,4,0]} />}
                   </BarChart>
                 </ResponsiveContainer>
               </div>
@@ -583,10 +1030,44 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
           </div>
         </div>
 
+        <AbcCurve
+          data={filteredSalesData}
+          valueKey={valueKey}
+          formatValue={formatValue}
+          thresholds={abcThresholds}
+          onThresholdsChange={handleAbcThresholds}
+          onSelect={selectFilterValue}
+        />
+
+        <StockCoveragePanel
+          data={coverageSalesData}
+          endDate={coverageEnd}
+          windowWeeks={velocityWeeks}
+          onWindowChange={setVelocityWeeks}
+        />
+
+        <ForecastPanel data={historySalesData} />
+
+        <CollectionLifecycleChart data={historySalesData} corteData={filteredCorteData} onSelect={(colecao, multi) => selectFilterValue('colecao', colecao, multi)} />
+
+        <PivotBuilder data={filteredSalesData} corteData={filteredCorteData} sizeOrder={sizeOrder} onSelect={selectFilterValue} />
+
         {/* Detailed Data Table Section */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
           <div className="p-6 border-b border-gray-100">
-            <h3 className="text-lg font-bold text-gray-800 mb-4">Detalhamento por Produto (Corte x Venda)</h3>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-bold text-gray-800">Detalhamento por Produto (Corte x Venda)</h3>
+                <p className="text-xs text-gray-400 mb-4">Clique em uma linha para ver a grade de cores e tamanhos da referência.</p>
+              </div>
+              <button
+                onClick={() => setShowRecut(true)}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-[#8d9648] border border-[#adb85c]/40 hover:bg-[#f4f6e6] whitespace-nowrap"
+              >
+                <Factory className="w-4 h-4" />
+                Sugerir reposição
+              </button>
+            </div>
             
             <div className="flex flex-col md:flex-row gap-4 justify-between items-center">
               {/* Search Code */}
@@ -603,19 +1084,36 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                 />
               </div>
 
-              {/* Rows Per Page */}
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-gray-600">Linhas por página:</span>
-                <select
-                  value={rowsPerPage}
-                  onChange={(e) => { setRowsPerPage(Number(e.target.value)); setCurrentPage(1); }}
-                  className="border border-gray-300 rounded-lg text-sm py-1.5 px-3 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white"
-                >
-                  <option value={10}>10</option>
-                  <option value={20}>20</option>
-                  <option value={50}>50</option>
-                  <option value={100}>100</option>
-                </select>
+              <div className="flex flex-wrap items-center gap-4">
+                {/* ABC class */}
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600">Curva ABC:</span>
+                  <select
+                    value={abcFilter}
+                    onChange={(e) => { setAbcFilter(e.target.value as AbcClass | 'all'); setCurrentPage(1); }}
+                    className="border border-gray-300 rounded-lg text-sm py-1.5 px-3 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white"
+                  >
+                    <option value="all">Todas</option>
+                    <option value="A">A</option>
+                    <option value="B">B</option>
+                    <option value="C">C</option>
+                  </select>
+                </div>
+
+                {/* Rows Per Page */}
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600">Linhas por página:</span>
+                  <select
+                    value={rowsPerPage}
+                    onChange={(e) => { setRowsPerPage(Number(e.target.value)); setCurrentPage(1); }}
+                    className="border border-gray-300 rounded-lg text-sm py-1.5 px-3 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white"
+                  >
+                    <option value={10}>10</option>
+                    <option value={20}>20</option>
+                    <option value={50}>50</option>
+                    <option value={100}>100</option>
+                  </select>
+                </div>
               </div>
             </div>
           </div>
@@ -628,10 +1126,16 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                   <SortableHeader label="Descrição" sortKey="produto" />
                   <SortableHeader label="Cor" sortKey="cor" />
                   <SortableHeader label="Tamanho" sortKey="tamanho" />
+                  <SortableHeader label="Curva" sortKey="curvaAbc" />
                   <SortableHeader label="Qtd. Cortada" sortKey="qtdCortada" align="right" />
                   <SortableHeader label="Qtd. Vendida" sortKey="qtdVendida" align="right" />
                   <SortableHeader label="Faturado (R$)" sortKey="faturado" align="right" />
                   <SortableHeader label="% Giro (Venda/Corte)" sortKey="percentualVendido" align="right" />
+                  <SortableHeader label="% Devolução" sortKey="taxaDevolucao" align="right" />
+                  <SortableHeader label="Margem (R$)" sortKey="margemBruta" align="right" />
+                  <SortableHeader label="% Margem" sortKey="margemPercentual" align="right" />
+                  <SortableHeader label="Estoque Atual" sortKey="estoqueAtual" align="right" />
+                  <SortableHeader label={`Cobertura (${velocityWeeks} sem.)`} sortKey="diasCobertura" align="right" />
                 </tr>
               </thead>
               <tbody>
@@ -661,11 +1165,23 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                     }
 
                     return (
-                        <tr key={row.id} className="bg-white border-b hover:bg-gray-50 transition-colors">
+                        <tr
+                          key={row.id}
+                          onClick={() => setGridCodigo(row.codigo)}
+                          title="Ver grade de tamanhos"
+                          className="bg-white border-b hover:bg-gray-50 transition-colors cursor-pointer"
+                        >
                         <td className="px-6 py-4 font-medium text-gray-900">{row.codigo || '-'}</td>
                         <td className="px-6 py-4 max-w-[200px] truncate" title={row.produto}>{row.produto}</td>
                         <td className="px-6 py-4">{row.cor}</td>
                         <td className="px-6 py-4">{row.tamanho}</td>
+                        <td className="px-6 py-4">
+                            {row.curvaAbc && (
+                              <span className="w-6 h-6 rounded-full inline-flex items-center justify-center text-xs font-bold text-white" style={{ backgroundColor: ABC_COLORS[row.curvaAbc] }}>
+                                {row.curvaAbc}
+                              </span>
+                            )}
+                        </td>
                         <td className="px-6 py-4 text-right">{row.qtdCortada || '-'}</td>
                         <td className="px-6 py-4 text-right">{formatNumber(row.qtdVendida)}</td>
                         <td className="px-6 py-4 text-right text-[#adb85c] font-medium">{formatCurrency(row.faturado)}</td>
@@ -674,12 +1190,25 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
                             {badgeText}
                             </span>
                         </td>
+                        <td className="px-6 py-4 text-right" title={row.qtdDevolvida > 0 ? `${formatNumber(row.qtdDevolvida)} peças | ${formatCurrency(row.valorDevolvido)}` : undefined}>
+                            {row.qtdDevolvida > 0 ? (
+                              <span className="text-red-500">{row.taxaDevolucao.toFixed(1)}%</span>
+                            ) : '-'}
+                        </td>
+                        <td className="px-6 py-4 text-right">{row.markup > 0 ? formatCurrency(row.margemBruta) : '-'}</td>
+                        <td className="px-6 py-4 text-right" title={row.markup > 0 ? `Markup ${row.markup.toFixed(2)}x` : 'Sem custo unitário'}>
+                            {row.markup > 0 ? `${row.margemPercentual.toFixed(1)}%` : '-'}
+                        </td>
+                        <td className="px-6 py-4 text-right">{formatNumber(row.estoqueAtual ?? 0)}</td>
+                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                            {row.estoqueAtual || Number.isFinite(row.diasCobertura) ? formatCoverage(row.diasCobertura ?? Infinity) : '-'}
+                        </td>
                         </tr>
                     );
                   })
                 ) : (
                   <tr>
-                    <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
+                    <td colSpan={14} className="px-6 py-8 text-center text-gray-500">
                       Nenhum dado encontrado para os filtros selecionados.
                     </td>
                   </tr>
@@ -736,6 +1265,18 @@ const Dashboard: React.FC<DashboardProps> = ({ data, corteData, onReset }) => {
         </div>
 
       </main>
+
+      {showStores && (
+        <StoreRegistryModal stores={stores} lojas={storeOptions} onSave={handleSaveStores} onClose={() => setShowStores(false)} />
+      )}
+
+      {showRecut && (
+        <RecutModal rows={tableData} dailySales={skuDailySales} velocityWeeks={velocityWeeks} onClose={() => setShowRecut(false)} />
+      )}
+
+      {sizeGrid && (
+        <SizeGridModal grid={sizeGrid} onClose={() => setGridCodigo(null)} />
+      )}
     </div>
   );
 };
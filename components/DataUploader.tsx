@@ -1,23 +1,342 @@
-import React, { useState } from 'react';
-import { Upload, FileSpreadsheet, Loader2, AlertCircle, CheckCircle, Plus } from 'lucide-react';
-import { parseExcelFile, parseCorteFile } from '../services/dataProcessing';
-import { CleanedSaleRecord, CorteRecord } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, FileSpreadsheet, Loader2, AlertCircle, CheckCircle, Plus, ArrowLeft, Download, FileWarning, ListChecks, Database, Trash2 } from 'lucide-react';
+import {
+  readSheetRows, readWorkbookSheets, detectSalesMapping, detectCorteMapping, detectCatalogMapping,
+  buildSalesRecords, buildCorteRecords, buildCatalogRecords, buildCatalog,
+  mergeSalesRecords, mappingNeedsReview, headerSignature, sourceLabel, SALES_FIELDS, CORTE_FIELDS, CATALOG_FIELDS,
+  formatNumber
+} from '../services/dataProcessing';
+import {
+  loadProfiles, saveProfiles, createProfile, upsertProfile, findMatchingProfile, applyProfile,
+  exportProfiles, importProfiles
+} from '../services/importProfiles';
+import { loadRules, saveRules, findNewValues } from '../services/normalizationRules';
+import {
+  CleanedSaleRecord, CorteRecord, ColumnMapping, SalesColumnMapping, CorteColumnMapping, CatalogColumnMapping, ImportFileKind, ImportProfile, ImportReport,
+  SheetData, MergeSummary, ReadProgress, NormalizationRules, NormalizationSuggestion, StoredDataset
+} from '../types';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import ImportProfileControls, { AUTO_PROFILE } from './ImportProfileControls';
+import ImportReportModal from './ImportReportModal';
+import NormalizationRulesModal from './NormalizationRulesModal';
+import { countIssues, countSuspiciousRows } from '../services/importReport';
+import { listDatasets, saveDataset, loadDataset, deleteDataset } from '../services/datasetStore';
 
 interface DataUploaderProps {
-  onDataLoaded: (data: CleanedSaleRecord[], corteData: CorteRecord[]) => void;
+  onDataLoaded: (data: CleanedSaleRecord[], corteData: CorteRecord[], datasetId?: string) => void;
+}
+
+// One entry per sheet of every selected sales workbook
+interface SalesSheetOption extends SheetData {
+  key: string;
+  selected: boolean;
+}
+
+// Sheets sharing the same header row are mapped once
+interface SalesLayout {
+  key: string;
+  sheetKeys: string[];
+  rows: any[][]; // rows of the first sheet, used for preview and profiles
+  mapping: SalesColumnMapping;
+  profileId: string;
 }
 
 const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const [salesFile, setSalesFile] = useState<File | null>(null);
+  const [salesFiles, setSalesFiles] = useState<File[]>([]);
+  const [salesSheets, setSalesSheets] = useState<SalesSheetOption[]>([]);
+  // Workbooks whose sheet names are store names, confirmed by the user; used only without a store column
+  const [sheetStoreFiles, setSheetStoreFiles] = useState<string[]>([]);
+  const [isReadingSheets, setIsReadingSheets] = useState(false);
+  const [mergeSummary, setMergeSummary] = useState<MergeSummary | null>(null);
+  const [readProgress, setReadProgress] = useState<{ progress: ReadProgress; fileIndex: number; fileCount: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [cutsFile, setCutsFile] = useState<File | null>(null);
+  const [catalogFile, setCatalogFile] = useState<File | null>(null);
+
+  const [loadedStats, setLoadedStats] = useState<{ sales: number; cuts: number; products: number; rejected: number; suspicious: number } | null>(null);
+
+  // Validation report of the last import; data waits for confirmation when rows were dropped or flagged
+  const [reports, setReports] = useState<ImportReport[]>([]);
+  const [showReport, setShowReport] = useState(false);
+  const [pendingData, setPendingData] = useState<{ sales: CleanedSaleRecord[]; cuts: CorteRecord[] } | null>(null);
+
+  // Column mapping step
+  const [step, setStep] = useState<'select' | 'mapping'>('select');
+  const [alwaysReview, setAlwaysReview] = useState(false);
+  const [salesLayouts, setSalesLayouts] = useState<SalesLayout[]>([]);
+  const [cutsRows, setCutsRows] = useState<any[][]>([]);
+  const [cutsMapping, setCutsMapping] = useState<CorteColumnMapping | null>(null);
+  const [catalogRows, setCatalogRows] = useState<any[][]>([]);
+  const [catalogMapping, setCatalogMapping] = useState<CatalogColumnMapping | null>(null);
+
+  // Saved import profiles
+  const [profiles, setProfiles] = useState<ImportProfile[]>(() => loadProfiles());
+  const [salesProfileId, setSalesProfileId] = useState<string>(AUTO_PROFILE);
+  const [cutsProfileId, setCutsProfileId] = useState<string>(AUTO_PROFILE);
+  const [catalogProfileId, setCatalogProfileId] = useState<string>(AUTO_PROFILE);
+  const [profileMessage, setProfileMessage] = useState<string | null>(null);
+  const profileFileRef = useRef<HTMLInputElement>(null);
+
+  // Alias table for colors/sizes/stores/categories; values it doesn't cover yet are offered for review
+  const [rules, setRules] = useState<NormalizationRules>(() => loadRules());
+  const [newValues, setNewValues] = useState<NormalizationSuggestion[]>([]);
+  const [showRules, setShowRules] = useState(false);
+
+  // Datasets of earlier imports kept in the browser, reopened without reading the files again
+  const [datasets, setDatasets] = useState<StoredDataset[]>([]);
+  const [openingDatasetId, setOpeningDatasetId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listDatasets().then(setDatasets).catch(err => console.error(err));
+  }, []);
+
+  const salesProfiles = profiles.filter(p => p.kind === 'sales');
+  const cutsProfiles = profiles.filter(p => p.kind === 'corte');
+  const catalogProfiles = profiles.filter(p => p.kind === 'catalogo');
+
+  const updateProfiles = (next: ImportProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  // Explicit choice wins; otherwise a profile whose headers match the file is picked up
+  const resolveProfile = (kind: ImportFileKind, selectedId: string, rows: any[][]): ImportProfile | null => {
+    if (selectedId !== AUTO_PROFILE) return profiles.find(p => p.id === selectedId) || null;
+    return findMatchingProfile(profiles, kind, rows);
+  };
+
+  const storeProfile = <F extends string>(kind: ImportFileKind, name: string, rows: any[][], mapping: ColumnMapping<F>): string | undefined => {
+    const next = upsertProfile(profiles, createProfile(name, kind, rows, mapping));
+    updateProfiles(next);
+    setProfileMessage(`Perfil "${name.trim()}" salvo.`);
+    return next.find(p => p.kind === kind && p.name.toLowerCase() === name.trim().toLowerCase())?.id;
+  };
+
+  // Keeps a copy of the import before opening it; a storage failure (e.g. quota) doesn't block the dashboard
+  const openImported = async (sales: CleanedSaleRecord[], cuts: CorteRecord[]) => {
+    const files = [...salesFiles, cutsFile, catalogFile].filter((f): f is File => !!f).map(f => f.name);
+    let datasetId: string | undefined;
+    try {
+      datasetId = (await saveDataset(files, sales, cuts)).id;
+    } catch (err) {
+      console.error(err);
+    }
+    onDataLoaded(sales, cuts, datasetId);
+  };
+
+  const handleOpenDataset = async (id: string) => {
+    setOpeningDatasetId(id);
+    setError(null);
+    try {
+      const stored = await loadDataset(id);
+      if (!stored) throw new Error('Conjunto não encontrado.');
+      onDataLoaded(stored.sales, stored.cuts, id);
+    } catch (err) {
+      console.error(err);
+      setError("Não foi possível abrir o conjunto salvo. Importe os arquivos novamente.");
+      setOpeningDatasetId(null);
+    }
+  };
+
+  const handleDeleteDataset = async (id: string) => {
+    try {
+      await deleteDataset(id);
+      setDatasets(prev => prev.filter(d => d.id !== id));
+    } catch (err) {
+      console.error(err);
+      setError("Não foi possível excluir o conjunto salvo.");
+    }
+  };
+
+  const updateLayout = (key: string, changes: Partial<SalesLayout>) => {
+    setSalesLayouts(prev => prev.map(l => l.key === key ? { ...l, ...changes } : l));
+  };
 
-  const [loadedStats, setLoadedStats] = useState<{ sales: number; cuts: number } | null>(null);
+  const handleSaveSalesProfile = (layout: SalesLayout, name: string) => {
+    const id = storeProfile('sales', name, layout.rows, layout.mapping);
+    if (id) updateLayout(layout.key, { profileId: id });
+  };
+
+  const handleSaveCutsProfile = (name: string) => {
+    if (!cutsMapping) return;
+    const id = storeProfile('corte', name, cutsRows, cutsMapping);
+    if (id) setCutsProfileId(id);
+  };
+
+  const handleSaveCatalogProfile = (name: string) => {
+    if (!catalogMapping) return;
+    const id = storeProfile('catalogo', name, catalogRows, catalogMapping);
+    if (id) setCatalogProfileId(id);
+  };
+
+  const handleSelectLayoutProfile = (layout: SalesLayout, id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    updateLayout(layout.key, {
+      profileId: id,
+      mapping: profile ? applyProfile(profile, SALES_FIELDS) : detectSalesMapping(layout.rows),
+    });
+  };
+
+  const handleSelectCutsProfile = (id: string) => {
+    setCutsProfileId(id);
+    if (step !== 'mapping') return;
+    const profile = profiles.find(p => p.id === id);
+    setCutsMapping(profile ? applyProfile(profile, CORTE_FIELDS) : detectCorteMapping(cutsRows));
+  };
+
+  const handleSelectCatalogProfile = (id: string) => {
+    setCatalogProfileId(id);
+    if (step !== 'mapping') return;
+    const profile = profiles.find(p => p.id === id);
+    setCatalogMapping(profile ? applyProfile(profile, CATALOG_FIELDS) : detectCatalogMapping(catalogRows));
+  };
+
+  const handleImportProfiles = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const next = await importProfiles(file, profiles);
+      updateProfiles(next);
+      setProfileMessage(`${next.length} perfis disponíveis após a importação.`);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError("Não foi possível importar os perfis. Verifique se o arquivo JSON foi exportado por este painel.");
+    } finally {
+      if (profileFileRef.current) profileFileRef.current.value = '';
+    }
+  };
+
+  const startReading = (): AbortSignal => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  };
+
+  const trackProgress = (fileIndex: number, fileCount: number) => (progress: ReadProgress) =>
+    setReadProgress({ progress, fileIndex, fileCount });
+
+  const isCancelled = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+  const handleSalesFilesChange = async (files: File[]) => {
+    setSalesFiles(files);
+    setSalesSheets([]);
+    setSheetStoreFiles([]);
+    setError(null);
+    if (files.length === 0) return;
+
+    setIsReadingSheets(true);
+    const signal = startReading();
+    try {
+      const options: SalesSheetOption[] = [];
+      for (const [i, file] of files.entries()) {
+        const sheets = await readWorkbookSheets(file, true, { signal, onProgress: trackProgress(i, files.length) });
+        sheets.forEach(sheet => options.push({
+          ...sheet,
+          key: `${options.length}|${sourceLabel(sheet)}`,
+          selected: sheet.rows.length > 0,
+        }));
+      }
+      setSalesSheets(options);
+    } catch (err) {
+      if (isCancelled(err)) {
+        setSalesFiles([]);
+        return;
+      }
+      console.error(err);
+      setError("Erro ao ler os arquivos de Vendas. Verifique se são planilhas válidas (.xlsx, .xls, .ods ou .csv) e tente novamente.");
+    } finally {
+      setIsReadingSheets(false);
+      setReadProgress(null);
+    }
+  };
+
+  const toggleSheetStores = (fileName: string) => {
+    setSheetStoreFiles(prev => prev.includes(fileName) ? prev.filter(f => f !== fileName) : [...prev, fileName]);
+  };
+
+  const toggleSheet = (key: string) => {
+    setSalesSheets(prev => prev.map(s => s.key === key ? { ...s, selected: !s.selected } : s));
+  };
+
+  // Groups the chosen sheets by header layout so each layout is mapped (and reviewed) once
+  const buildSalesLayouts = (sheets: SalesSheetOption[]): SalesLayout[] => {
+    const layouts = new Map<string, SalesLayout>();
+    sheets.forEach(sheet => {
+      const profile = resolveProfile('sales', salesProfileId, sheet.rows);
+      const mapping = profile ? applyProfile(profile, SALES_FIELDS) : detectSalesMapping(sheet.rows);
+      const key = JSON.stringify([profile?.id, mapping.headerRowIndex, headerSignature(sheet.rows, mapping.headerRowIndex)]);
+      const existing = layouts.get(key);
+      if (existing) {
+        existing.sheetKeys.push(sheet.key);
+      } else {
+        layouts.set(key, { key, sheetKeys: [sheet.key], rows: sheet.rows, mapping, profileId: profile?.id || AUTO_PROFILE });
+      }
+    });
+    return Array.from(layouts.values());
+  };
+
+  const finishImport = (
+    layouts: SalesLayout[],
+    cRows: any[][],
+    cMapping: CorteColumnMapping | null,
+    pRows: any[][],
+    pMapping: CatalogColumnMapping | null,
+    currentRules: NormalizationRules = rules
+  ) => {
+    // The catalog goes first: its attributes override the ones found in sales and corte rows
+    const catalogResult = pMapping ? buildCatalogRecords(pRows, pMapping, { rules: currentRules }) : null;
+    const catalog = catalogResult ? buildCatalog(catalogResult.records) : undefined;
+
+    const salesResults = layouts.flatMap(layout => {
+      const sheets = salesSheets.filter(s => layout.sheetKeys.includes(s.key));
+      return sheets.map(sheet => buildSalesRecords(sheet.rows, layout.mapping, {
+        source: sheet,
+        sheetIsStore: sheetStoreFiles.includes(sheet.fileName),
+        catalog,
+        rules: currentRules,
+      }));
+    });
+    const cutsResult = cMapping ? buildCorteRecords(cRows, cMapping, { catalog, rules: currentRules }) : null;
+    const merged = mergeSalesRecords(salesResults.map(r => r.records));
+    const salesData = merged.records;
+    const cutsData = cutsResult ? cutsResult.records : [];
+    setMergeSummary(merged.summary);
+
+    const nextReports: ImportReport[] = salesResults.map(r => r.report);
+    if (cutsResult) nextReports.push({ ...cutsResult.report, fileName: cutsFile?.name });
+    if (catalogResult) nextReports.push({ ...catalogResult.report, fileName: catalogFile?.name });
+    setReports(nextReports);
+
+    if (salesData.length === 0) {
+      setError("O arquivo de Vendas parece estar vazio ou não pôde ser lido. Revise o mapeamento de colunas.");
+      return;
+    }
+
+    const rejected = nextReports.reduce((acc, r) => acc + countIssues(r, 'rejected'), 0);
+    const suspicious = nextReports.reduce((acc, r) => acc + countSuspiciousRows(r), 0);
+    const suggestions = findNewValues(salesData, cutsData, currentRules);
+    setNewValues(suggestions);
+    setLoadedStats({ sales: salesData.length, cuts: cutsData.length, products: catalogResult?.records.length || 0, rejected, suspicious });
+
+    // Only other spellings of known values hold the import; new sizes are just listed for review
+    const variants = suggestions.filter(s => s.reason === 'variant').length;
+    if (rejected > 0 || suspicious > 0 || variants > 0) {
+      setPendingData({ sales: salesData, cuts: cutsData });
+      return;
+    }
+
+    // Small delay to let user see the success state before transition
+    setTimeout(() => {
+        openImported(salesData, cutsData);
+    }, 1500);
+  };
 
   const handleProcess = async () => {
-    if (!salesFile) {
+    const selectedSheets = salesSheets.filter(s => s.selected && s.rows.length > 0);
+    if (selectedSheets.length === 0) {
         setError("Por favor, carregue pelo menos o arquivo de Vendas.");
         return;
     }
@@ -25,44 +344,103 @@ const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
     setIsLoading(true);
     setError(null);
     setLoadedStats(null);
+    setPendingData(null);
+    setReports([]);
+    setMergeSummary(null);
+    setNewValues([]);
 
     try {
-      // Process Sales
-      const salesData = await parseExcelFile(salesFile);
-      
-      let cutsData: CorteRecord[] = [];
+      // Guess the columns of each sales layout
+      const layouts = buildSalesLayouts(selectedSheets);
+      const appliedNames = Array.from(new Set(layouts
+        .map(l => profiles.find(p => p.id === l.profileId)?.name)
+        .filter((name): name is string => !!name)));
+
+      let cRows: any[][] = [];
+      let cMapping: CorteColumnMapping | null = null;
       if (cutsFile) {
-          cutsData = await parseCorteFile(cutsFile);
+          cRows = await readSheetRows(cutsFile, false, { signal: startReading(), onProgress: trackProgress(0, 1) });
+          if (cRows.length > 0) {
+            const cProfile = resolveProfile('corte', cutsProfileId, cRows);
+            cMapping = cProfile ? applyProfile(cProfile, CORTE_FIELDS) : detectCorteMapping(cRows);
+            if (cProfile) appliedNames.push(cProfile.name);
+          }
+      }
+      let pRows: any[][] = [];
+      let pMapping: CatalogColumnMapping | null = null;
+      if (catalogFile) {
+          pRows = await readSheetRows(catalogFile, false, { signal: startReading(), onProgress: trackProgress(0, 1) });
+          if (pRows.length > 0) {
+            const pProfile = resolveProfile('catalogo', catalogProfileId, pRows);
+            pMapping = pProfile ? applyProfile(pProfile, CATALOG_FIELDS) : detectCatalogMapping(pRows);
+            if (pProfile) appliedNames.push(pProfile.name);
+          }
       }
+      setProfileMessage(appliedNames.length > 0 ? `Perfil aplicado: ${appliedNames.join(', ')}` : null);
 
-      if (salesData.length === 0) {
-        setError("O arquivo de Vendas parece estar vazio ou não pôde ser lido.");
+      setSalesLayouts(layouts);
+      setCutsRows(cRows);
+      setCutsMapping(cMapping);
+      setCatalogRows(pRows);
+      setCatalogMapping(pMapping);
+
+      const uncertain = layouts.some(l => mappingNeedsReview(l.mapping, SALES_FIELDS)) ||
+        (cMapping !== null && mappingNeedsReview(cMapping, CORTE_FIELDS)) ||
+        (pMapping !== null && mappingNeedsReview(pMapping, CATALOG_FIELDS));
+
+      if (alwaysReview || uncertain) {
+        setStep('mapping');
       } else {
-        setLoadedStats({ sales: salesData.length, cuts: cutsData.length });
-        
-        // Small delay to let user see the success state before transition
-        setTimeout(() => {
-            onDataLoaded(salesData, cutsData);
-        }, 1500);
+        finishImport(layouts, cRows, cMapping, pRows, pMapping);
       }
     } catch (err) {
+      if (isCancelled(err)) return;
       console.error(err);
-      setError("Erro ao processar os arquivos. Verifique se são Excel (.xlsx) válidos e tente novamente.");
+      setError("Erro ao processar os arquivos. Verifique se são planilhas válidas (.xlsx, .xls, .ods ou .csv) e tente novamente.");
     } finally {
       setIsLoading(false);
+      setReadProgress(null);
     }
   };
 
+  // Saving while the import waits for confirmation rebuilds the records with the new rules
+  const handleSaveRules = (next: NormalizationRules) => {
+    setRules(next);
+    saveRules(next);
+    setShowRules(false);
+    if (pendingData) finishImport(salesLayouts, cutsRows, cutsMapping, catalogRows, catalogMapping, next);
+  };
+
+  const handleOpenDashboard = () => {
+    if (!pendingData) return;
+    openImported(pendingData.sales, pendingData.cuts);
+  };
+
+  const handleConfirmMapping = () => {
+    setError(null);
+    finishImport(salesLayouts, cutsRows, cutsMapping, catalogRows, catalogMapping);
+  };
+
+  const handleBackToSelect = () => {
+    setStep('select');
+    setError(null);
+    setProfileMessage(null);
+    setLoadedStats(null);
+    setPendingData(null);
+  };
+
   const FileInput = ({ 
     label, 
-    file, 
-    setFile, 
-    required = false 
+    files, 
+    setFiles, 
+    required = false,
+    multiple = false
   }: { 
     label: string, 
-    file: File | null, 
-    setFile: (f: File | null) => void,
-    required?: boolean
+    files: File[], 
+    setFiles: (f: File[]) => void,
+    required?: boolean,
+    multiple?: boolean
   }) => (
     <div className="flex-1 w-full">
         <p className="text-sm font-semibold text-gray-700 mb-2 flex justify-between">
@@ -75,17 +453,17 @@ const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
               flex flex-col items-center justify-center w-full h-32 
               border-2 border-dashed rounded-lg cursor-pointer 
               transition-all duration-300
-              ${file 
+              ${files.length > 0 
                 ? 'border-green-300 bg-green-50' 
                 : 'border-[#adb85c]/30 bg-[#f4f6e6] hover:bg-[#eef2d6]'}
             `}
           >
             <div className="flex flex-col items-center pt-5 pb-6">
-              {file ? (
+              {files.length > 0 ? (
                   <>
                     <CheckCircle className="w-8 h-8 mb-3 text-green-600" />
-                    <p className="mb-2 text-sm text-gray-600 font-medium px-2 text-center break-all">
-                        {file.name}
+                    <p className="mb-2 text-sm text-gray-600 font-medium px-2 text-center break-all" title={files.map(f => f.name).join('\n')}>
+                        {files.length === 1 ? files[0].name : `${files.length} arquivos selecionados`}
                     </p>
                     <p className="text-xs text-green-600">Pronto para carregar</p>
                   </>
@@ -93,27 +471,242 @@ const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
                   <>
                     <Upload className="w-8 h-8 mb-3 text-[#adb85c]" />
                     <p className="mb-2 text-sm text-gray-600">
-                      <span className="font-semibold">Clique para selecionar</span>
+                      <span className="font-semibold">{multiple ? 'Clique para selecionar um ou mais' : 'Clique para selecionar'}</span>
                     </p>
-                    <p className="text-xs text-gray-400">XLSX, XLS</p>
+                    <p className="text-xs text-gray-400">XLSX, XLS, ODS, CSV</p>
                   </>
               )}
             </div>
             <input 
               type="file" 
-              accept=".xlsx, .xls"
+              accept=".xlsx, .xls, .ods, .csv"
+              multiple={multiple}
               className="hidden" 
-              onChange={(e) => setFile(e.target.files?.[0] || null)}
-              disabled={isLoading}
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+              disabled={isLoading || isReadingSheets}
             />
           </label>
         </div>
     </div>
   );
 
+  const errorBox = error && (
+    <div className="mb-6 flex items-center gap-2 text-red-600 text-sm bg-red-50 p-3 rounded-lg text-left">
+      <AlertCircle className="w-4 h-4 flex-shrink-0" />
+      <span>{error}</span>
+      {reports.length > 0 && (
+        <button onClick={() => setShowReport(true)} className="ml-auto underline whitespace-nowrap">Ver relatório</button>
+      )}
+    </div>
+  );
+
+  const statsBox = loadedStats && (
+     <div className="mb-6 flex flex-col items-center justify-center gap-1 text-green-600 text-sm bg-green-50 p-3 rounded-lg">
+       <div className="flex items-center gap-2 font-bold">
+          <CheckCircle className="w-4 h-4" />
+          <span>Dados processados com sucesso!</span>
+       </div>
+       <div className="text-xs text-gray-600">
+          Vendas: {loadedStats.sales} registros | Corte: {loadedStats.cuts} registros
+          {loadedStats.products > 0 && ` | Catálogo: ${loadedStats.products} produtos`}
+       </div>
+       {mergeSummary && mergeSummary.sources.length > 1 && (
+         <details className="text-xs text-gray-600 w-full">
+           <summary className="cursor-pointer">
+             {mergeSummary.sources.length} abas mescladas · {mergeSummary.duplicatesRemoved} linhas duplicadas removidas
+           </summary>
+           <ul className="mt-2 space-y-0.5 text-left">
+             {mergeSummary.sources.map(src => (
+               <li key={sourceLabel(src)} className="flex justify-between gap-4">
+                 <span className="truncate">{sourceLabel(src)}</span>
+                 <span className="whitespace-nowrap">
+                   {src.rows} linhas{src.duplicatesRemoved > 0 && ` (−${src.duplicatesRemoved} duplicadas)`}
+                 </span>
+               </li>
+             ))}
+           </ul>
+         </details>
+       )}
+       {(loadedStats.rejected > 0 || loadedStats.suspicious > 0) && (
+         <button
+           onClick={() => setShowReport(true)}
+           className="mt-1 flex items-center gap-1 text-xs text-yellow-700 hover:underline"
+         >
+           <FileWarning className="w-3.5 h-3.5" />
+           {loadedStats.rejected} linhas rejeitadas e {loadedStats.suspicious} suspeitas — ver relatório
+         </button>
+       )}
+       {newValues.length > 0 && (
+         <button
+           onClick={() => setShowRules(true)}
+           className="flex items-center gap-1 text-xs text-yellow-700 hover:underline"
+         >
+           <ListChecks className="w-3.5 h-3.5" />
+           {newValues.length} valores para padronizar — revisar
+         </button>
+       )}
+     </div>
+  );
+
+  const STAGE_LABELS: Record<ReadProgress['stage'], string> = {
+    reading: 'Lendo arquivo',
+    parsing: 'Interpretando planilha',
+    rows: 'Lendo linhas',
+  };
+
+  const progressBox = readProgress && (
+    <div className="mb-6 text-left bg-gray-50 border border-gray-200 rounded-lg p-3">
+      <div className="flex justify-between gap-4 text-xs text-gray-600 mb-1">
+        <span className="truncate">
+          {readProgress.progress.fileName}
+          {readProgress.fileCount > 1 && ` (${readProgress.fileIndex + 1}/${readProgress.fileCount})`}
+        </span>
+        <span className="flex items-center gap-1 whitespace-nowrap">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          {STAGE_LABELS[readProgress.progress.stage]}
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-1.5">
+        <div className="bg-[#adb85c] h-1.5 rounded-full transition-all" style={{ width: `${readProgress.progress.percent}%` }}></div>
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-gray-500">
+        <span>
+          {readProgress.progress.totalRows > 0
+            ? `${formatNumber(readProgress.progress.rowsRead)} de ${formatNumber(readProgress.progress.totalRows)} linhas · ${readProgress.progress.percent}%`
+            : `${readProgress.progress.percent}%`}
+        </span>
+        <button onClick={() => abortRef.current?.abort()} className="text-red-500 hover:underline">Cancelar</button>
+      </div>
+    </div>
+  );
+
+  const reportModal = showReport && (
+    <ImportReportModal reports={reports} onClose={() => setShowReport(false)} />
+  );
+
+  const rulesModal = showRules && (
+    <NormalizationRulesModal rules={rules} suggestions={newValues} onSave={handleSaveRules} onClose={() => setShowRules(false)} />
+  );
+
+  const hasSelectedSheets = salesSheets.some(s => s.selected);
+  const multiSheetFiles = Array.from(new Set(salesSheets.map(s => s.fileName)))
+    .filter(fileName => salesSheets.filter(s => s.fileName === fileName).length > 1);
+
+  const layoutSourceNames = (layout: SalesLayout) => {
+    const names = salesSheets.filter(s => layout.sheetKeys.includes(s.key)).map(sourceLabel);
+    return names.length > 3 ? `${names.slice(0, 3).join(', ')} (+${names.length - 3})` : names.join(', ');
+  };
+
+  if (step === 'mapping' && salesLayouts.length > 0) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] p-6 text-center">
+        <div className="bg-white p-10 rounded-2xl shadow-xl border border-gray-100 max-w-5xl w-full">
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Revisar Colunas</h2>
+          <p className="text-gray-500 mb-8">
+            Confira a qual coluna cada campo foi associado e corrija antes de gerar o relatório.
+          </p>
+
+          <div className="space-y-10 mb-8">
+            {salesLayouts.map((layout, i) => (
+              <ColumnMappingWizard
+                key={layout.key}
+                title={salesLayouts.length > 1 ? `Arquivo de Vendas — Layout ${i + 1}` : 'Arquivo de Vendas'}
+                fileName={layoutSourceNames(layout)}
+                rows={layout.rows}
+                fields={SALES_FIELDS}
+                mapping={layout.mapping}
+                onHeaderRowChange={(idx) => updateLayout(layout.key, {
+                  mapping: { ...detectSalesMapping(layout.rows, idx), numberLocale: layout.mapping.numberLocale, dateFormat: layout.mapping.dateFormat }
+                })}
+                onMappingChange={(mapping) => updateLayout(layout.key, { mapping })}
+                headerActions={
+                  <ImportProfileControls
+                    profiles={salesProfiles}
+                    selectedId={layout.profileId}
+                    onSelect={(id) => handleSelectLayoutProfile(layout, id)}
+                    onSave={(name) => handleSaveSalesProfile(layout, name)}
+                  />
+                }
+              />
+            ))}
+            {cutsMapping && (
+              <ColumnMappingWizard
+                title="Arquivo de Corte"
+                fileName={cutsFile?.name || ''}
+                rows={cutsRows}
+                fields={CORTE_FIELDS}
+                mapping={cutsMapping}
+                onHeaderRowChange={(idx) => setCutsMapping({ ...detectCorteMapping(cutsRows, idx), numberLocale: cutsMapping.numberLocale, dateFormat: cutsMapping.dateFormat })}
+                onMappingChange={setCutsMapping}
+                showDateFormat={false}
+                headerActions={
+                  <ImportProfileControls
+                    profiles={cutsProfiles}
+                    selectedId={cutsProfileId}
+                    onSelect={handleSelectCutsProfile}
+                    onSave={handleSaveCutsProfile}
+                  />
+                }
+              />
+            )}
+            {catalogMapping && (
+              <ColumnMappingWizard
+                title="Catálogo de Produtos"
+                fileName={catalogFile?.name || ''}
+                rows={catalogRows}
+                fields={CATALOG_FIELDS}
+                mapping={catalogMapping}
+                onHeaderRowChange={(idx) => setCatalogMapping({ ...detectCatalogMapping(catalogRows, idx), numberLocale: catalogMapping.numberLocale, dateFormat: catalogMapping.dateFormat })}
+                onMappingChange={setCatalogMapping}
+                showDateFormat={false}
+                headerActions={
+                  <ImportProfileControls
+                    profiles={catalogProfiles}
+                    selectedId={catalogProfileId}
+                    onSelect={handleSelectCatalogProfile}
+                    onSave={handleSaveCatalogProfile}
+                  />
+                }
+              />
+            )}
+          </div>
+
+          {profileMessage && (
+            <p className="mb-4 text-xs text-green-600">{profileMessage}</p>
+          )}
+          {errorBox}
+          {statsBox}
+
+          <div className="flex flex-col md:flex-row gap-3">
+            <button
+                onClick={handleBackToSelect}
+                className="md:w-48 py-3 rounded-lg font-bold text-gray-600 border border-gray-300 hover:bg-gray-50 flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+                <ArrowLeft className="w-4 h-4" />
+                Voltar
+            </button>
+            <button
+                onClick={pendingData ? handleOpenDashboard : handleConfirmMapping}
+                disabled={loadedStats !== null && !pendingData}
+                className={`
+                    flex-1 py-3 rounded-lg font-bold text-white shadow-md transition-all
+                    flex items-center justify-center gap-2
+                    ${loadedStats && !pendingData ? 'bg-gray-400 cursor-not-allowed' : 'bg-[#adb85c] hover:bg-[#9ca653] hover:shadow-lg'}
+                `}
+            >
+                {pendingData ? "Abrir Dashboard" : loadedStats ? "Carregando Dashboard..." : "Confirmar e Gerar Dashboard"}
+            </button>
+          </div>
+        </div>
+        {reportModal}
+        {rulesModal}
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col items-center justify-center min-h-[60vh] p-6 text-center">
-      <div className="bg-white p-10 rounded-2xl shadow-xl border border-gray-100 max-w-2xl w-full">
+      <div className="bg-white p-10 rounded-2xl shadow-xl border border-gray-100 max-w-4xl w-full">
         <div className="mb-6 flex justify-center">
           <div className="bg-[#f4f6e6] p-4 rounded-full">
             <FileSpreadsheet className="w-12 h-12 text-[#adb85c]" />
@@ -126,39 +719,112 @@ const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
         </p>
 
         <div className="flex flex-col md:flex-row gap-6 mb-8">
-            <FileInput label="1. Arquivo de Vendas (Geral)" file={salesFile} setFile={setSalesFile} required />
+            <div className="flex-1 w-full space-y-3">
+                <FileInput label="1. Arquivos de Vendas (Geral)" files={salesFiles} setFiles={handleSalesFilesChange} required multiple />
+                {salesSheets.length > 1 && (
+                  <div className="text-left border border-gray-100 rounded-lg p-3 max-h-40 overflow-y-auto">
+                    <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Abas a incluir</p>
+                    {salesSheets.map(sheet => (
+                      <label key={sheet.key} className="flex items-center gap-2 text-xs text-gray-600 py-0.5 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={sheet.selected}
+                          disabled={sheet.rows.length === 0}
+                          onChange={() => toggleSheet(sheet.key)}
+                          className="rounded border-gray-300 text-[#adb85c] focus:ring-[#adb85c]"
+                        />
+                        <span className="truncate">{sourceLabel(sheet)}</span>
+                        <span className="ml-auto text-gray-400 whitespace-nowrap">{sheet.rows.length} linhas</span>
+                      </label>
+                    ))}
+                    {multiSheetFiles.map(fileName => (
+                      <label key={fileName} className="flex items-center gap-2 text-xs text-gray-600 pt-2 mt-1 border-t border-gray-100 cursor-pointer" title="Só vale para abas sem coluna de loja">
+                        <input
+                          type="checkbox"
+                          checked={sheetStoreFiles.includes(fileName)}
+                          onChange={() => toggleSheetStores(fileName)}
+                          className="rounded border-gray-300 text-[#adb85c] focus:ring-[#adb85c]"
+                        />
+                        <span className="truncate">Cada aba de {fileName} é uma loja</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                <ImportProfileControls profiles={salesProfiles} selectedId={salesProfileId} onSelect={setSalesProfileId} />
+            </div>
+            <div className="hidden md:flex items-center justify-center pt-6">
+                <Plus className="text-gray-300" />
+            </div>
+            <div className="flex-1 w-full space-y-3">
+                <FileInput label="2. Arquivo de Corte (Opcional)" files={cutsFile ? [cutsFile] : []} setFiles={(files) => setCutsFile(files[0] || null)} />
+                <ImportProfileControls profiles={cutsProfiles} selectedId={cutsProfileId} onSelect={handleSelectCutsProfile} />
+            </div>
             <div className="hidden md:flex items-center justify-center pt-6">
                 <Plus className="text-gray-300" />
             </div>
-            <FileInput label="2. Arquivo de Corte (Opcional)" file={cutsFile} setFile={setCutsFile} />
+            <div className="flex-1 w-full space-y-3">
+                <FileInput label="3. Catálogo de Produtos (Opcional)" files={catalogFile ? [catalogFile] : []} setFiles={(files) => setCatalogFile(files[0] || null)} />
+                <ImportProfileControls profiles={catalogProfiles} selectedId={catalogProfileId} onSelect={handleSelectCatalogProfile} />
+            </div>
         </div>
 
-        {error && (
-          <div className="mb-6 flex items-center gap-2 text-red-600 text-sm bg-red-50 p-3 rounded-lg text-left">
-            <AlertCircle className="w-4 h-4 flex-shrink-0" />
-            <span>{error}</span>
-          </div>
+        <div className="mb-6 flex flex-wrap items-center justify-center gap-3 text-xs text-gray-500">
+            <span>{profiles.length} perfis de importação salvos</span>
+            <button
+              onClick={() => profileFileRef.current?.click()}
+              className="flex items-center gap-1 text-[#8d9648] hover:underline"
+            >
+              <Upload className="w-3 h-3" />
+              Importar perfis
+            </button>
+            <button
+              onClick={() => exportProfiles(profiles)}
+              disabled={profiles.length === 0}
+              className="flex items-center gap-1 text-[#8d9648] hover:underline disabled:opacity-40 disabled:no-underline"
+            >
+              <Download className="w-3 h-3" />
+              Exportar perfis
+            </button>
+            <button
+              onClick={() => setShowRules(true)}
+              className="flex items-center gap-1 text-[#8d9648] hover:underline"
+            >
+              <ListChecks className="w-3 h-3" />
+              Regras de normalização
+            </button>
+            <input
+              ref={profileFileRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => handleImportProfiles(e.target.files?.[0])}
+            />
+        </div>
+        {profileMessage && (
+          <p className="-mt-4 mb-6 text-xs text-green-600">{profileMessage}</p>
         )}
 
-        {loadedStats && (
-           <div className="mb-6 flex flex-col items-center justify-center gap-1 text-green-600 text-sm bg-green-50 p-3 rounded-lg">
-             <div className="flex items-center gap-2 font-bold">
-                <CheckCircle className="w-4 h-4" />
-                <span>Dados processados com sucesso!</span>
-             </div>
-             <div className="text-xs text-gray-600">
-                Vendas: {loadedStats.sales} registros | Corte: {loadedStats.cuts} registros
-             </div>
-           </div>
-        )}
+        <label className="mb-6 flex items-center justify-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={alwaysReview}
+              onChange={(e) => setAlwaysReview(e.target.checked)}
+              className="rounded border-gray-300 text-[#adb85c] focus:ring-[#adb85c]"
+            />
+            Revisar mapeamento de colunas antes de importar
+        </label>
+
+        {progressBox}
+        {errorBox}
+        {statsBox}
 
         <button
-            onClick={handleProcess}
-            disabled={isLoading || !salesFile || loadedStats !== null}
+            onClick={pendingData ? handleOpenDashboard : handleProcess}
+            disabled={isLoading || isReadingSheets || !hasSelectedSheets || (loadedStats !== null && !pendingData)}
             className={`
                 w-full py-3 rounded-lg font-bold text-white shadow-md transition-all
                 flex items-center justify-center gap-2
-                ${isLoading || !salesFile ? 'bg-gray-400 cursor-not-allowed' : 'bg-[#adb85c] hover:bg-[#9ca653] hover:shadow-lg'}
+                ${isLoading || isReadingSheets || !hasSelectedSheets ? 'bg-gray-400 cursor-not-allowed' : 'bg-[#adb85c] hover:bg-[#9ca653] hover:shadow-lg'}
             `}
         >
             {isLoading ? (
@@ -166,6 +832,8 @@ const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
                     <Loader2 className="w-5 h-5 animate-spin" />
                     Processando...
                 </>
+            ) : pendingData ? (
+                "Abrir Dashboard"
             ) : loadedStats ? (
                 "Carregando Dashboard..."
             ) : (
@@ -173,7 +841,48 @@ const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
             )}
         </button>
 
+        {datasets.length > 0 && (
+          <div className="mt-8 pt-6 border-t border-gray-100 text-left">
+            <p className="text-xs font-semibold text-gray-500 uppercase mb-3">Conjuntos importados</p>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {datasets.map(dataset => (
+                <div key={dataset.id} className="flex items-center gap-3 border border-gray-100 rounded-lg px-3 py-2 hover:bg-gray-50">
+                  <Database className="w-4 h-4 text-[#adb85c] shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-700 truncate" title={dataset.files.join(', ')}>
+                      {dataset.files.join(', ') || 'Sem nome'}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {new Date(dataset.importedAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                      {' · '}{formatNumber(dataset.salesCount)} vendas
+                      {dataset.cutsCount > 0 && ` · ${formatNumber(dataset.cutsCount)} cortes`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleOpenDataset(dataset.id)}
+                    disabled={openingDatasetId !== null}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium text-white bg-[#adb85c] hover:bg-[#9ca653] disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    {openingDatasetId === dataset.id && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                    Abrir
+                  </button>
+                  <button
+                    onClick={() => handleDeleteDataset(dataset.id)}
+                    disabled={openingDatasetId !== null}
+                    className="p-1 text-gray-300 hover:text-red-500 disabled:opacity-40"
+                    title="Excluir conjunto"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
       </div>
+      {reportModal}
+      {rulesModal}
     </div>
   );
 };
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Calendar } from 'lucide-react';
+import { DatePreset, DateRange } from '../types';
+import { DATE_PRESETS, clampRange, presetRange } from '../services/dateRanges';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  bounds: DateRange; // first and last dates with sales
+  dates: string[]; // every date with sales, in order
+  onChange: (range: DateRange) => void;
+}
+
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, bounds, dates, onChange }) => {
+  const handlePreset = (preset: DatePreset) => {
+    const range = presetRange(preset, bounds, value);
+    if (range) onChange(range);
+  };
+
+  // Typed dates snap to the nearest day with sales; a start after the end is ignored
+  const handleInput = (range: DateRange) => {
+    const next = clampRange(range, bounds, dates);
+    if (next) onChange(next);
+  };
+
+  return (
+    <div className="flex items-center gap-2 bg-gray-50 px-3 py-1.5 rounded-lg border border-gray-200">
+      <Calendar className="w-4 h-4 text-gray-500" />
+      <input
+        type="date"
+        value={value.start}
+        min={bounds.start}
+        max={value.end || bounds.end}
+        onChange={(e) => e.target.value && handleInput({ ...value, start: e.target.value })}
+        className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 w-32 p-0 cursor-pointer"
+      />
+      <span className="text-gray-400">-</span>
+      <input
+        type="date"
+        value={value.end}
+        min={value.start || bounds.start}
+        max={bounds.end}
+        onChange={(e) => e.target.value && handleInput({ ...value, end: e.target.value })}
+        className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 w-32 p-0 cursor-pointer"
+      />
+      <div className="w-px h-4 bg-gray-300 mx-1"></div>
+      <select
+        value=""
+        onChange={(e) => handlePreset(e.target.value as DatePreset)}
+        className="bg-transparent text-sm border-none focus:ring-0 text-gray-700 font-medium cursor-pointer w-24"
+        title="Atalhos relativos à última data com vendas"
+      >
+        <option value="" disabled>Atalhos</option>
+        {DATE_PRESETS.map(p => (
+          <option key={p.key} value={p.key} disabled={!presetRange(p.key, bounds, value)}>{p.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { CleanedSaleRecord, ForecastMethod, ForecastPoint } from '../types';
+import { aggregateBy, formatCurrency, formatNumber } from '../services/dataProcessing';
+import { FORECAST_METHODS, forecastSales } from '../services/forecast';
+
+type ForecastGroup = 'total' | 'categoria' | 'colecao' | 'loja';
+type ForecastGranularity = 'week' | 'month';
+
+interface ForecastPanelProps {
+  data: CleanedSaleRecord[]; // filtered sales over the whole history, not only the selected period
+}
+
+const GROUPS: { key: ForecastGroup; label: string }[] = [
+  { key: 'total', label: 'Total' },
+  { key: 'categoria', label: 'Categoria' },
+  { key: 'colecao', label: 'Coleção' },
+  { key: 'loja', label: 'Loja' },
+];
+
+const HORIZONS: Record<ForecastGranularity, number[]> = { week: [4, 8, 12], month: [3, 6, 12] };
+const UNITS: Record<ForecastGranularity, string> = { week: 'semanas', month: 'meses' };
+
+const selectClass = 'border border-gray-300 rounded-lg text-sm py-1.5 px-3 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white';
+
+const ForecastPanel: React.FC<ForecastPanelProps> = ({ data }) => {
+  const [valueKey, setValueKey] = useState<'valorTotal' | 'quantidade'>('valorTotal');
+  const [group, setGroup] = useState<ForecastGroup>('total');
+  const [groupValue, setGroupValue] = useState('');
+  const [granularity, setGranularity] = useState<ForecastGranularity>('week');
+  const [horizon, setHorizon] = useState(8);
+  const [method, setMethod] = useState<ForecastMethod>('auto');
+
+  // Group members ranked by revenue, so the default is the biggest one
+  const groupOptions = useMemo(
+    () => group === 'total' ? [] : aggregateBy(data, group).map(g => g.name),
+    [data, group]
+  );
+  const selectedValue = groupOptions.includes(groupValue) ? groupValue : groupOptions[0] || '';
+
+  const result = useMemo(() => {
+    const series = group === 'total' ? data : data.filter(item => item[group] === selectedValue);
+    return forecastSales(series, valueKey, granularity, horizon, method);
+  }, [data, group, selectedValue, valueKey, granularity, horizon, method]);
+
+  const formatValue = (val: number) => valueKey === 'valorTotal' ? formatCurrency(val) : formatNumber(val);
+  const methodLabel = FORECAST_METHODS.find(m => m.key === result.method)?.label;
+
+  const handleGranularity = (next: ForecastGranularity) => {
+    setGranularity(next);
+    setHorizon(HORIZONS[next][1]);
+  };
+
+  const ForecastTooltip = ({ active, payload }: any) => {
+    if (!active || !payload || payload.length === 0) return null;
+    const point: ForecastPoint = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border border-gray-200 shadow-lg rounded text-sm">
+        <p className="font-bold mb-1">{point.label}</p>
+        {point.actual !== undefined && <p className="text-[#adb85c] font-semibold">Realizado: {formatValue(point.actual)}</p>}
+        {point.actual === undefined && point.forecast !== undefined && (
+          <>
+            <p className="text-[#606633] font-semibold">Previsão: {formatValue(point.forecast)}</p>
+            {point.band && <p className="text-gray-500 text-xs mt-1">Intervalo 95%: {formatValue(point.band[0])} a {formatValue(point.band[1])}</p>}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-bold text-gray-800">Previsão de Vendas</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex bg-gray-100 p-1 rounded-lg">
+            {([['valorTotal', 'R$'], ['quantidade', 'Qtd']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setValueKey(key)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${valueKey === key ? 'bg-white text-[#adb85c] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex bg-gray-100 p-1 rounded-lg">
+            {([['week', 'Semana'], ['month', 'Mês']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => handleGranularity(key)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${granularity === key ? 'bg-white text-[#adb85c] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 mb-4">
+        <select value={group} onChange={(e) => setGroup(e.target.value as ForecastGroup)} className={selectClass}>
+          {GROUPS.map(g => <option key={g.key} value={g.key}>{g.label}</option>)}
+        </select>
+        {group !== 'total' && (
+          <select value={selectedValue} onChange={(e) => setGroupValue(e.target.value)} className={`${selectClass} max-w-[14rem]`}>
+            {groupOptions.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+        <label className="flex items-center gap-2">
+          Horizonte:
+          <select value={horizon} onChange={(e) => setHorizon(Number(e.target.value))} className={selectClass}>
+            {HORIZONS[granularity].map(h => <option key={h} value={h}>{h} {UNITS[granularity]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Modelo:
+          <select value={method} onChange={(e) => setMethod(e.target.value as ForecastMethod)} className={selectClass}>
+            {FORECAST_METHODS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {result.method ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div className="border border-gray-100 rounded-lg p-3">
+            <p className="text-xs text-gray-500">Projeção próximas {horizon} {UNITS[granularity]}</p>
+            <p className="text-lg font-bold text-gray-900">{formatValue(result.projectedTotal)}</p>
+          </div>
+          <div className="border border-gray-100 rounded-lg p-3">
+            <p className="text-xs text-gray-500">Modelo usado</p>
+            <p className="text-sm font-bold text-gray-800">{methodLabel}</p>
+          </div>
+          <div className="border border-gray-100 rounded-lg p-3">
+            <p className="text-xs text-gray-500">Erro no backtest</p>
+            {result.backtest ? (
+              <>
+                <p className={`text-sm font-bold ${result.backtest.wape <= 20 ? 'text-green-600' : result.backtest.wape <= 40 ? 'text-yellow-600' : 'text-red-500'}`}>
+                  {result.backtest.wape.toFixed(1)}% (WAPE)
+                </p>
+                <p className="text-xs text-gray-400">
+                  Erro médio de {formatValue(result.backtest.mae)} por período nas últimas {result.backtest.periods} {UNITS[granularity]}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-400">Histórico curto demais para testar</p>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 mb-4">Histórico insuficiente para projetar. São necessários pelo menos 2 períodos completos.</p>
+      )}
+
+      <div className="h-80 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={result.points} margin={{ top: 10, right: 10, left: 10, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#eee" />
+            <XAxis dataKey="label" tick={{ fontSize: 10 }} minTickGap={10} />
+            <YAxis tick={{ fontSize: 10 }} tickFormatter={(val: number) => formatValue(val).replace(/,\d{2}$/, '')} width={90} />
+            <Tooltip content={<ForecastTooltip />} />
+            <Legend verticalAlign="top" height={30} iconType="circle" />
+            <Area dataKey="band" name="Intervalo 95%" stroke="none" fill="#adb85c" fillOpacity={0.2} />
+            <Line type="monotone" dataKey="actual" name="Realizado" stroke="#adb85c" strokeWidth={2} dot={false} />
+            <Line type="monotone" dataKey="forecast" name="Previsão" stroke="#606633" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default ForecastPanel;
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Save } from 'lucide-react';
+import { ImportProfile } from '../types';
+
+export const AUTO_PROFILE = 'auto';
+
+interface ImportProfileControlsProps {
+  profiles: ImportProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onSave?: (name: string) => void;
+}
+
+const ImportProfileControls: React.FC<ImportProfileControlsProps> = ({ profiles, selectedId, onSelect, onSave }) => {
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    if (!onSave || !name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+      <label className="flex items-center gap-2">
+        Perfil:
+        <select
+          value={selectedId}
+          onChange={(e) => onSelect(e.target.value)}
+          className="border border-gray-300 rounded-lg text-sm py-1.5 px-3 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white max-w-[12rem]"
+        >
+          <option value={AUTO_PROFILE}>Detectar automaticamente</option>
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </label>
+      {onSave && (
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+            placeholder="Nome do perfil"
+            className="border border-gray-300 rounded-lg text-sm py-1.5 px-3 w-36 focus:ring-[#adb85c] focus:border-[#adb85c]"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            title="Salvar mapeamento como perfil"
+            className="p-2 rounded-lg text-[#adb85c] hover:bg-[#f4f6e6] disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportProfileControls;
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { X, Download, AlertCircle, AlertTriangle } from 'lucide-react';
+import { ImportIssue, ImportReport } from '../types';
+import {
+  ISSUE_REASON_LABELS, FILE_LABELS, countIssues, countSuspiciousRows, issuesByReason, downloadImportReport
+} from '../services/importReport';
+
+interface ImportReportModalProps {
+  reports: ImportReport[];
+  onClose: () => void;
+}
+
+const MAX_LISTED_ISSUES = 200;
+
+const ImportReportModal: React.FC<ImportReportModalProps> = ({ reports, onClose }) => {
+  const [severity, setSeverity] = useState<ImportIssue['severity']>('rejected');
+
+  const listedIssues = reports.flatMap(r => r.issues
+    .filter(i => i.severity === severity)
+    .map(i => ({ ...i, source: r.fileName || FILE_LABELS[i.file] })));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col text-left"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold text-gray-800">Relatório de Importação</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadImportReport(reports)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-white bg-[#adb85c] hover:bg-[#9ca653]"
+            >
+              <Download className="w-4 h-4" />
+              Baixar lista (.xlsx)
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Fechar">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {reports.map((report, idx) => (
+              <div key={`${report.file}-${idx}`} className="border border-gray-100 rounded-xl p-4">
+                <p className="text-sm font-bold text-gray-800">{FILE_LABELS[report.file]}</p>
+                <p className="text-xs text-gray-400 break-all mb-3">{report.fileName}</p>
+                <div className="grid grid-cols-4 gap-2 text-center mb-3">
+                  <div>
+                    <p className="text-lg font-bold text-gray-900">{report.totalRows}</p>
+                    <p className="text-[10px] uppercase text-gray-500">Lidas</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-bold text-green-600">{report.acceptedRows}</p>
+                    <p className="text-[10px] uppercase text-gray-500">Importadas</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-bold text-red-600">{countIssues(report, 'rejected')}</p>
+                    <p className="text-[10px] uppercase text-gray-500">Rejeitadas</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-bold text-yellow-600">{countSuspiciousRows(report)}</p>
+                    <p className="text-[10px] uppercase text-gray-500">Suspeitas</p>
+                  </div>
+                </div>
+                <ul className="text-xs text-gray-600 space-y-1">
+                  {issuesByReason(report).map(r => (
+                    <li key={r.reason} className="flex justify-between">
+                      <span className={r.severity === 'rejected' ? 'text-red-600' : 'text-yellow-700'}>{ISSUE_REASON_LABELS[r.reason]}</span>
+                      <span className="font-medium">{r.count}</span>
+                    </li>
+                  ))}
+                </ul>
+                {report.unmappedFields.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-3">
+                    Sem coluna (valor padrão em todas as linhas): {report.unmappedFields.join(', ')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex bg-gray-100 p-1 rounded-lg w-fit mb-3">
+              <button
+                onClick={() => setSeverity('rejected')}
+                className={`flex items-center gap-1 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${severity === 'rejected' ? 'bg-white text-red-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                <AlertCircle className="w-3.5 h-3.5" />
+                Rejeitadas
+              </button>
+              <button
+                onClick={() => setSeverity('suspicious')}
+                className={`flex items-center gap-1 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${severity === 'suspicious' ? 'bg-white text-yellow-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                <AlertTriangle className="w-3.5 h-3.5" />
+                Suspeitas
+              </button>
+            </div>
+
+            <div className="overflow-x-auto border border-gray-100 rounded-lg">
+              <table className="w-full text-xs text-gray-600">
+                <thead className="uppercase bg-gray-50 text-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Arquivo</th>
+                    <th className="px-3 py-2 text-right">Linha</th>
+                    <th className="px-3 py-2 text-left">Motivo</th>
+                    <th className="px-3 py-2 text-left">Detalhe</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {listedIssues.length > 0 ? listedIssues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                    <tr key={`${issue.source}-${issue.rowNumber}-${issue.reason}-${i}`} className="border-t border-gray-100">
+                      <td className="px-3 py-1.5 max-w-[12rem] truncate" title={issue.source}>{issue.source}</td>
+                      <td className="px-3 py-1.5 text-right">{issue.rowNumber}</td>
+                      <td className="px-3 py-1.5 whitespace-nowrap">{ISSUE_REASON_LABELS[issue.reason]}</td>
+                      <td className="px-3 py-1.5 max-w-[20rem] truncate" title={issue.detail}>{issue.detail}</td>
+                    </tr>
+                  )) : (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-6 text-center text-gray-400">Nenhuma linha nesta lista.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {listedIssues.length > MAX_LISTED_ISSUES && (
+              <p className="text-xs text-gray-400 mt-2">
+                Mostrando {MAX_LISTED_ISSUES} de {listedIssues.length}. Baixe a lista completa em .xlsx.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportModal;
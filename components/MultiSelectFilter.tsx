@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Search } from 'lucide-react';
+import { DimensionFilter, FilterMode } from '../types';
+
+interface MultiSelectFilterProps {
+  label: string; // field name, e.g. "Loja"
+  allLabel: string; // shown when nothing is selected, e.g. "Todas as Lojas"
+  options: string[];
+  value?: DimensionFilter;
+  onChange: (filter: DimensionFilter | undefined) => void;
+}
+
+const MultiSelectFilter: React.FC<MultiSelectFilterProps> = ({ label, allLabel, options, value, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  // Mode picked before any value is checked; an empty filter is dropped by the parent
+  const [draftMode, setDraftMode] = useState<FilterMode>('include');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const selected = value?.values || [];
+  const mode = value?.mode ?? draftMode;
+  const term = search.toLowerCase().trim();
+  const visible = term ? options.filter(o => o.toLowerCase().includes(term)) : options;
+
+  const update = (values: string[], nextMode: FilterMode = mode) =>
+    onChange(values.length > 0 ? { values, mode: nextMode } : undefined);
+
+  const toggle = (option: string) =>
+    update(selected.includes(option) ? selected.filter(v => v !== option) : [...selected, option]);
+
+  const handleMode = (next: FilterMode) => {
+    setDraftMode(next);
+    if (selected.length > 0) update(selected, next);
+  };
+
+  // "P" / "Tamanho: 3 selecionados" / "Loja: exceto E-commerce"
+  const picked = selected.length === 1 ? selected[0] : `${selected.length} selecionados`;
+  const summary = selected.length === 0
+    ? allLabel
+    : mode === 'exclude' ? `${label}: exceto ${picked}` : selected.length === 1 ? picked : `${label}: ${picked}`;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 text-sm font-medium whitespace-nowrap max-w-[12rem] ${selected.length > 0 ? (mode === 'exclude' ? 'text-red-500' : 'text-[#8d9648]') : 'text-gray-700'}`}
+        title={selected.length > 0 ? `${label}${mode === 'exclude' ? ' (exceto)' : ''}: ${selected.join(', ')}` : undefined}
+      >
+        <span className="truncate">{summary}</span>
+        <ChevronDown className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-0 mt-2 z-40 w-64 bg-white rounded-xl shadow-lg border border-gray-200 p-3 text-left">
+          <div className="flex bg-gray-100 p-1 rounded-lg mb-2">
+            {([['include', 'Incluir'], ['exclude', 'Excluir']] as const).map(([key, text]) => (
+              <button
+                key={key}
+                onClick={() => handleMode(key)}
+                className={`flex-1 px-2 py-1 rounded-md text-xs font-medium transition-all ${mode === key ? 'bg-white text-[#adb85c] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {text}
+              </button>
+            ))}
+          </div>
+
+          <div className="relative mb-2">
+            <Search className="w-3.5 h-3.5 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={`Buscar ${label.toLowerCase()}...`}
+              className="w-full pl-7 pr-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-[#adb85c] focus:border-[#adb85c]"
+              autoFocus
+            />
+          </div>
+
+          <div className="max-h-60 overflow-y-auto space-y-0.5">
+            {visible.length > 0 ? visible.map(option => (
+              <label key={option} className="flex items-center gap-2 px-1 py-1 rounded hover:bg-gray-50 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={() => toggle(option)}
+                  className="rounded border-gray-300 text-[#adb85c] focus:ring-[#adb85c]"
+                />
+                <span className="truncate">{option}</span>
+              </label>
+            )) : (
+              <p className="text-xs text-gray-400 px-1 py-2">Nenhum valor encontrado.</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between border-t border-gray-100 mt-2 pt-2 text-xs">
+            <button
+              onClick={() => update(Array.from(new Set([...selected, ...visible])))}
+              disabled={visible.length === 0}
+              className="text-[#8d9648] hover:underline disabled:opacity-40"
+            >
+              Marcar {term ? 'encontrados' : 'todos'}
+            </button>
+            <button onClick={() => update([])} disabled={selected.length === 0} className="text-gray-500 hover:underline disabled:opacity-40">
+              Limpar
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MultiSelectFilter;
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown, Check } from 'lucide-react';
+import { NormalizationField, NormalizationRules, NormalizationSuggestion } from '../types';
+import { NORMALIZATION_FIELDS, DEFAULT_RULES, aliasKey, foldKey, setAlias, removeAlias } from '../services/normalizationRules';
+
+interface NormalizationRulesModalProps {
+  rules: NormalizationRules;
+  suggestions?: NormalizationSuggestion[];
+  onSave: (rules: NormalizationRules) => void;
+  onClose: () => void;
+}
+
+type Tab = NormalizationField | 'sizeOrder';
+
+const inputClass = 'border border-gray-300 rounded-lg text-sm py-1 px-2 focus:ring-[#adb85c] focus:border-[#adb85c]';
+
+const NormalizationRulesModal: React.FC<NormalizationRulesModalProps> = ({ rules, suggestions = [], onSave, onClose }) => {
+  const [draft, setDraft] = useState<NormalizationRules>(rules);
+  const [tab, setTab] = useState<Tab>(suggestions[0]?.field || 'cor');
+  // Canonical value typed for each pending suggestion, keyed by field|value
+  const [choices, setChoices] = useState<Record<string, string>>(() =>
+    Object.fromEntries(suggestions.map(s => [`${s.field}|${s.value}`, s.suggested])));
+  const [newAlias, setNewAlias] = useState({ raw: '', canonical: '' });
+  const [newSize, setNewSize] = useState('');
+
+  const inSizeOrder = (rulesDraft: NormalizationRules, size: string) => rulesDraft.sizeOrder.some(o => foldKey(o) === foldKey(size));
+  const isPending = (s: NormalizationSuggestion) => draft.aliases[s.field][aliasKey(s.value)] === undefined &&
+    (s.reason === 'variant' || !inSizeOrder(draft, s.value));
+  const pending = suggestions.filter(s => s.field === tab && isPending(s));
+
+  // Another spelling becomes an alias; a size kept as it is only joins the size order
+  const acceptSuggestion = (s: NormalizationSuggestion) => {
+    const canonical = choices[`${s.field}|${s.value}`]?.trim() || s.value;
+    setDraft(prev => {
+      const next = canonical !== s.value ? setAlias(prev, s.field, s.value, canonical) : prev;
+      return s.field === 'tamanho' && !inSizeOrder(next, canonical) ? { ...next, sizeOrder: [...next.sizeOrder, canonical] } : next;
+    });
+  };
+
+  const handleAddAlias = (field: NormalizationField) => {
+    if (!newAlias.raw.trim() || !newAlias.canonical.trim()) return;
+    setDraft(prev => setAlias(prev, field, newAlias.raw, newAlias.canonical));
+    setNewAlias({ raw: '', canonical: '' });
+  };
+
+  const moveSize = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= draft.sizeOrder.length) return;
+    const next = [...draft.sizeOrder];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft({ ...draft, sizeOrder: next });
+  };
+
+  const handleAddSize = () => {
+    const size = newSize.trim().toUpperCase();
+    if (!size || draft.sizeOrder.some(s => s.toUpperCase() === size)) return;
+    setDraft({ ...draft, sizeOrder: [...draft.sizeOrder, size] });
+    setNewSize('');
+  };
+
+  const pendingCount = (field: NormalizationField) => suggestions.filter(s => s.field === field && isPending(s)).length;
+
+  const tabs: { key: Tab; label: string }[] = [...NORMALIZATION_FIELDS, { key: 'sizeOrder', label: 'Ordem de tamanhos' }];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col text-left"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Regras de Normalização</h2>
+            <p className="text-xs text-gray-500">Valores equivalentes são unificados na importação (maiúsculas e espaços são ignorados).</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Fechar">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4">
+          <div className="flex flex-wrap bg-gray-100 p-1 rounded-lg w-fit">
+            {tabs.map(t => {
+              const count = t.key === 'sizeOrder' ? 0 : pendingCount(t.key);
+              return (
+                <button
+                  key={t.key}
+                  onClick={() => setTab(t.key)}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${tab === t.key ? 'bg-white text-[#adb85c] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  {t.label}
+                  {count > 0 && <span className="ml-1 px-1.5 rounded-full text-xs bg-yellow-100 text-yellow-700">{count}</span>}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {tab === 'sizeOrder' ? (
+            <div>
+              <p className="text-xs text-gray-500 mb-3">Ordem usada nos gráficos e tabelas por tamanho. Tamanhos fora da lista vêm depois, em ordem numérica/alfabética.</p>
+              <ul className="space-y-1 mb-3">
+                {draft.sizeOrder.map((size, i) => (
+                  <li key={size} className="flex items-center gap-2 text-sm text-gray-700 border border-gray-100 rounded-lg px-3 py-1">
+                    <span className="w-6 text-xs text-gray-400">{i + 1}</span>
+                    <span className="flex-1 font-medium">{size}</span>
+                    <button onClick={() => moveSize(i, -1)} disabled={i === 0} className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30" title="Subir">
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => moveSize(i, 1)} disabled={i === draft.sizeOrder.length - 1} className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30" title="Descer">
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => setDraft({ ...draft, sizeOrder: draft.sizeOrder.filter((_, idx) => idx !== i) })} className="p-1 text-gray-400 hover:text-red-500" title="Remover">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={newSize}
+                  onChange={(e) => setNewSize(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAddSize(); }}
+                  placeholder="Novo tamanho"
+                  className={`${inputClass} w-36`}
+                />
+                <button onClick={handleAddSize} className="p-2 rounded-lg text-[#adb85c] hover:bg-[#f4f6e6]" title="Adicionar tamanho">
+                  <Plus className="w-4 h-4" />
+                </button>
+                <button onClick={() => setDraft({ ...draft, sizeOrder: DEFAULT_RULES.sizeOrder })} className="ml-auto text-xs text-gray-500 hover:underline">
+                  Restaurar padrão
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {pending.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-xs font-semibold text-gray-500 uppercase">Valores para revisar</p>
+                    <button onClick={() => pending.forEach(acceptSuggestion)} className="text-xs text-[#8d9648] hover:underline">
+                      Aceitar todas as sugestões
+                    </button>
+                  </div>
+                  <table className="w-full text-sm text-gray-600 border border-gray-100 rounded-lg">
+                    <tbody>
+                      {pending.map(s => (
+                        <tr key={s.value} className="border-b border-gray-100">
+                          <td className="px-3 py-1.5 font-medium text-gray-800">{s.value}</td>
+                          <td className="px-3 py-1.5 text-xs text-gray-400 whitespace-nowrap">
+                            {s.count} linhas{s.reason === 'newSize' && ' · fora da ordem de tamanhos'}
+                          </td>
+                          <td className="px-3 py-1.5">
+                            <input
+                              type="text"
+                              value={choices[`${s.field}|${s.value}`] ?? s.suggested}
+                              onChange={(e) => setChoices({ ...choices, [`${s.field}|${s.value}`]: e.target.value })}
+                              className={`${inputClass} w-full`}
+                            />
+                          </td>
+                          <td className="px-3 py-1.5 text-right">
+                            <button onClick={() => acceptSuggestion(s)} className="p-1 rounded-lg text-[#adb85c] hover:bg-[#f4f6e6]" title="Aceitar">
+                              <Check className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div>
+                <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Apelidos</p>
+                <table className="w-full text-sm text-gray-600 border border-gray-100 rounded-lg">
+                  <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Valor na planilha</th>
+                      <th className="px-3 py-2 text-left">Valor padronizado</th>
+                      <th className="px-3 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.entries(draft.aliases[tab]).sort(([a], [b]) => a.localeCompare(b)).map(([raw, canonical]) => (
+                      <tr key={raw} className="border-t border-gray-100">
+                        <td className="px-3 py-1.5">{raw}</td>
+                        <td className="px-3 py-1.5 font-medium text-gray-800">{canonical}</td>
+                        <td className="px-3 py-1.5 text-right">
+                          <button onClick={() => setDraft(prev => removeAlias(prev, tab, raw))} className="p-1 text-gray-400 hover:text-red-500" title="Remover">
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    <tr className="border-t border-gray-100">
+                      <td className="px-3 py-1.5">
+                        <input
+                          type="text"
+                          value={newAlias.raw}
+                          onChange={(e) => setNewAlias({ ...newAlias, raw: e.target.value })}
+                          placeholder="Ex.: PTO"
+                          className={`${inputClass} w-full`}
+                        />
+                      </td>
+                      <td className="px-3 py-1.5">
+                        <input
+                          type="text"
+                          value={newAlias.canonical}
+                          onChange={(e) => setNewAlias({ ...newAlias, canonical: e.target.value })}
+                          onKeyDown={(e) => { if (e.key === 'Enter') handleAddAlias(tab); }}
+                          placeholder="Ex.: Preto"
+                          className={`${inputClass} w-full`}
+                        />
+                      </td>
+                      <td className="px-3 py-1.5 text-right">
+                        <button onClick={() => handleAddAlias(tab)} className="p-1 rounded-lg text-[#adb85c] hover:bg-[#f4f6e6]" title="Adicionar apelido">
+                          <Plus className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-6 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 border border-gray-300 hover:bg-gray-50">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-[#adb85c] hover:bg-[#9ca653]"
+          >
+            Salvar regras
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NormalizationRulesModal;
@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+import { CleanedSaleRecord, CorteRecord, FilterField, PivotConfig, PivotDimension, PivotRow } from '../types';
+import { PIVOT_DIMENSIONS, PIVOT_MEASURES, buildPivot, pivotLabel, measureUsesCut, isProductDimension } from '../services/pivot';
+import { formatCurrency, formatNumber } from '../services/dataProcessing';
+import { isFilterField } from '../services/dimensionFilters';
+
+interface PivotBuilderProps {
+  data: CleanedSaleRecord[];
+  corteData: CorteRecord[];
+  sizeOrder: string[];
+  onSelect?: (field: FilterField, value: string, multi: boolean) => void; // cell click filters the dashboard
+}
+
+const MAX_ROWS = 300;
+
+const selectClass = 'border border-gray-300 rounded-lg text-sm py-1.5 px-3 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white';
+
+const DEFAULT_CONFIG: PivotConfig = {
+  rows: ['loja'],
+  column: 'categoria',
+  measure: 'faturamento',
+  sortBy: 'total',
+  sortDirection: 'desc',
+};
+
+// No repeated row level; cut measures drop dimensions the cut can't be split by
+const sanitize = (config: PivotConfig): PivotConfig => {
+  const unique = Array.from(new Set(config.rows));
+  if (!measureUsesCut(config.measure)) return { ...config, rows: unique };
+  const rows = unique.filter(isProductDimension);
+  return {
+    ...config,
+    rows: rows.length > 0 ? rows : ['categoria'],
+    column: config.column && isProductDimension(config.column) ? config.column : null,
+  };
+};
+
+const PivotBuilder: React.FC<PivotBuilderProps> = ({ data, corteData, sizeOrder, onSelect }) => {
+  const [config, setConfig] = useState<PivotConfig>(DEFAULT_CONFIG);
+  const [heatmap, setHeatmap] = useState(true);
+
+  const pivot = useMemo(() => buildPivot(data, corteData, config, sizeOrder), [data, corteData, config, sizeOrder]);
+
+  const updateConfig = (changes: Partial<PivotConfig>) => setConfig(prev => sanitize({ ...prev, ...changes }));
+
+  const dimensionOptions = PIVOT_DIMENSIONS.filter(d => !measureUsesCut(config.measure) || d.productLevel);
+
+  const formatMeasure = (val: number) => {
+    if (config.measure === 'giro') return `${val.toFixed(1)}%`;
+    if (config.measure === 'faturamento' || config.measure === 'margem') return formatCurrency(val);
+    return formatNumber(val);
+  };
+
+  // Intensity relative to the largest detail cell; negatives (returns, losses) in red
+  const maxCell = useMemo(() => Math.max(0, ...pivot.rows
+    .filter(r => !r.subtotal)
+    .flatMap(r => (pivot.columns.length > 0 ? r.cells : [r.total]).map(c => Math.abs(c ?? 0)))), [pivot]);
+  const heatStyle = (val: number | null): React.CSSProperties | undefined => {
+    if (!heatmap || val === null || maxCell === 0) return undefined;
+    const alpha = 0.08 + (Math.min(Math.abs(val), maxCell) / maxCell) * 0.6;
+    return { backgroundColor: val < 0 ? `rgba(248, 113, 113, ${alpha})` : `rgba(173, 184, 92, ${alpha})` };
+  };
+
+  const handleSort = (sortBy: PivotConfig['sortBy']) => {
+    const sortDirection = config.sortBy === sortBy && config.sortDirection === 'desc' ? 'asc' : 'desc';
+    updateConfig({ sortBy, sortDirection });
+  };
+
+  const sortIcon = (sortBy: PivotConfig['sortBy']) => {
+    if (config.sortBy !== sortBy) return <ArrowUpDown className="w-3 h-3 text-gray-300" />;
+    return config.sortDirection === 'asc' ? <ArrowUp className="w-3 h-3 text-[#adb85c]" /> : <ArrowDown className="w-3 h-3 text-[#adb85c]" />;
+  };
+
+  const rowLabel = (row: PivotRow) => {
+    if (row.subtotal) return `Subtotal ${pivotLabel(config.rows[0], row.labels[0])}`;
+    return row.labels.map((label, level) => pivotLabel(config.rows[level], label)).join(' · ');
+  };
+
+  // Cell click filters by the row labels and the column, for the dimensions the dashboard can filter by
+  const selectCell = (row: PivotRow, column: string | null, event: React.MouseEvent) => {
+    if (!onSelect) return;
+    const pairs: [PivotDimension, string][] = row.labels.map((label, level) => [config.rows[level], label]);
+    if (column !== null && config.column) pairs.push([config.column, column]);
+    pairs.forEach(([dim, value]) => {
+      if (isFilterField(dim) && value) onSelect(dim, value, event.ctrlKey || event.metaKey);
+    });
+  };
+  const clickable = onSelect ? 'cursor-pointer hover:ring-1 hover:ring-inset hover:ring-[#adb85c]' : '';
+
+  const visibleRows = pivot.rows.slice(0, MAX_ROWS);
+  const secondRow = config.rows[1] ?? '';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">Tabela Dinâmica</h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            Linhas:
+            <select
+              value={config.rows[0]}
+              onChange={(e) => updateConfig({ rows: [e.target.value as PivotDimension, ...config.rows.slice(1)] })}
+              className={selectClass}
+            >
+              {dimensionOptions.map(d => <option key={d.key} value={d.key}>{d.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Depois por:
+            <select
+              value={secondRow}
+              onChange={(e) => updateConfig({ rows: e.target.value ? [config.rows[0], e.target.value as PivotDimension] : [config.rows[0]] })}
+              className={selectClass}
+            >
+              <option value="">—</option>
+              {dimensionOptions.filter(d => d.key !== config.rows[0]).map(d => <option key={d.key} value={d.key}>{d.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Colunas:
+            <select
+              value={config.column ?? ''}
+              onChange={(e) => updateConfig({ column: (e.target.value || null) as PivotDimension | null })}
+              className={selectClass}
+            >
+              <option value="">—</option>
+              {dimensionOptions.map(d => <option key={d.key} value={d.key}>{d.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Medida:
+            <select
+              value={config.measure}
+              onChange={(e) => updateConfig({ measure: e.target.value as PivotConfig['measure'] })}
+              className={selectClass}
+            >
+              {PIVOT_MEASURES.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={heatmap}
+              onChange={(e) => setHeatmap(e.target.checked)}
+              className="rounded text-[#adb85c] focus:ring-[#adb85c]"
+            />
+            Mapa de calor
+          </label>
+        </div>
+        {measureUsesCut(config.measure) && (
+          <p className="text-xs text-gray-400 mt-2">O corte não tem loja nem data, por isso só pode ser aberto por atributos de produto.</p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-gray-600">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left cursor-pointer hover:bg-gray-100" onClick={() => handleSort('label')}>
+                <div className="flex items-center gap-1">
+                  {config.rows.map(r => PIVOT_DIMENSIONS.find(d => d.key === r)?.label).join(' · ')}
+                  {sortIcon('label')}
+                </div>
+              </th>
+              {pivot.columns.map(c => (
+                <th key={c} className="px-4 py-3 text-right whitespace-nowrap">{pivotLabel(config.column!, c)}</th>
+              ))}
+              <th className="px-4 py-3 text-right cursor-pointer hover:bg-gray-100" onClick={() => handleSort('total')}>
+                <div className="flex items-center justify-end gap-1">
+                  Total
+                  {sortIcon('total')}
+                </div>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.length > 0 ? visibleRows.map((row, i) => (
+              <tr key={`${row.subtotal ? 'subtotal' : 'row'}-${row.labels.join('|')}-${i}`} className={`border-b border-gray-100 ${row.subtotal ? 'bg-gray-50 font-semibold text-gray-800' : ''}`}>
+                <td className={`px-4 py-2 max-w-[18rem] truncate ${clickable}`} title={rowLabel(row)} onClick={(e) => selectCell(row, null, e)}>{rowLabel(row)}</td>
+                {row.cells.map((cell, j) => (
+                  <td
+                    key={pivot.columns[j]}
+                    className={`px-4 py-2 text-right whitespace-nowrap ${clickable}`}
+                    style={row.subtotal ? undefined : heatStyle(cell)}
+                    onClick={(e) => selectCell(row, pivot.columns[j], e)}
+                  >
+                    {cell === null ? '-' : formatMeasure(cell)}
+                  </td>
+                ))}
+                <td
+                  className={`px-4 py-2 text-right font-medium whitespace-nowrap ${clickable}`}
+                  style={row.subtotal || pivot.columns.length > 0 ? undefined : heatStyle(row.total)}
+                  onClick={(e) => selectCell(row, null, e)}
+                >
+                  {formatMeasure(row.total)}
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={pivot.columns.length + 2} className="px-4 py-8 text-center text-gray-500">
+                  Nenhum dado encontrado para os filtros selecionados.
+                </td>
+              </tr>
+            )}
+          </tbody>
+          {visibleRows.length > 0 && (
+            <tfoot className="bg-gray-100 font-bold text-gray-800">
+              <tr>
+                <td className="px-4 py-2">Total geral</td>
+                {pivot.columnTotals.map((total, j) => (
+                  <td key={pivot.columns[j]} className="px-4 py-2 text-right whitespace-nowrap">{formatMeasure(total)}</td>
+                ))}
+                <td className="px-4 py-2 text-right whitespace-nowrap">{formatMeasure(pivot.grandTotal)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+      {pivot.rows.length > MAX_ROWS && (
+        <p className="text-xs text-gray-400 px-6 py-3">
+          Mostrando {MAX_ROWS} de {pivot.rows.length} linhas. Use filtros ou dimensões menos detalhadas.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PivotBuilder;
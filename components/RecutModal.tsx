@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { DetailedTableRow, RecutParams } from '../types';
+import { formatNumber } from '../services/dataProcessing';
+import { DEFAULT_RECUT_PARAMS, recommendRecuts, exportProductionOrder } from '../services/recut';
+
+interface RecutModalProps {
+  rows: DetailedTableRow[];
+  dailySales: Map<string, number>; // SKU key -> units per day in the velocity window
+  velocityWeeks: number;
+  onClose: () => void;
+}
+
+const inputClass = 'border border-gray-300 rounded-lg text-sm py-1 px-2 w-20 focus:ring-[#adb85c] focus:border-[#adb85c]';
+
+const RecutModal: React.FC<RecutModalProps> = ({ rows, dailySales, velocityWeeks, onClose }) => {
+  const [params, setParams] = useState<RecutParams>(DEFAULT_RECUT_PARAMS);
+  // Quantities edited by hand, kept when the parameters change
+  const [edits, setEdits] = useState<Record<string, number>>({});
+
+  const suggestions = useMemo(() => recommendRecuts(rows, dailySales, params), [rows, dailySales, params]);
+  const finalSuggestions = suggestions.map(s => ({ ...s, sugerido: edits[s.id] ?? s.sugerido }));
+  const totalPieces = finalSuggestions.reduce((acc, s) => acc + s.sugerido, 0);
+
+  const setParam = (key: keyof RecutParams, value: number) => setParams(prev => ({ ...prev, [key]: Math.max(value || 0, 0) }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col text-left"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Sugestão de Reposição de Corte</h2>
+            <p className="text-xs text-gray-500">
+              Venda média das últimas {velocityWeeks} semanas × cobertura alvo, menos o estoque atual. Considera os filtros da tabela.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => exportProductionOrder(finalSuggestions)}
+              disabled={totalPieces === 0}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-white bg-[#adb85c] hover:bg-[#9ca653] disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              Baixar ordem de corte (.xlsx)
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Fechar">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 pt-4 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            Cobertura alvo
+            <input type="number" min={1} value={params.targetDays} onChange={(e) => setParam('targetDays', Number(e.target.value))} className={inputClass} />
+            dias
+          </label>
+          <label className="flex items-center gap-2">
+            Lote mínimo
+            <input type="number" min={0} value={params.minBatch} onChange={(e) => setParam('minBatch', Number(e.target.value))} className={inputClass} />
+            peças
+          </label>
+          <label className="flex items-center gap-2">
+            Giro mínimo do último corte
+            <input type="number" min={0} max={100} value={params.minSellThrough} onChange={(e) => setParam('minSellThrough', Number(e.target.value))} className={inputClass} />
+            %
+          </label>
+          {Object.keys(edits).length > 0 && (
+            <button onClick={() => setEdits({})} className="text-xs text-gray-500 hover:underline">Descartar edições</button>
+          )}
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          <table className="w-full text-sm text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left">Código</th>
+                <th className="px-3 py-2 text-left">Descrição</th>
+                <th className="px-3 py-2 text-left">Cor</th>
+                <th className="px-3 py-2 text-left">Tam.</th>
+                <th className="px-3 py-2 text-right">Cortado</th>
+                <th className="px-3 py-2 text-right">% Giro</th>
+                <th className="px-3 py-2 text-right">Estoque</th>
+                <th className="px-3 py-2 text-right">Venda/dia</th>
+                <th className="px-3 py-2 text-right">Sugerido</th>
+              </tr>
+            </thead>
+            <tbody>
+              {finalSuggestions.length > 0 ? finalSuggestions.map(s => (
+                <tr key={s.id} className="border-b border-gray-100">
+                  <td className="px-3 py-1.5 font-medium text-gray-800">{s.codigo}</td>
+                  <td className="px-3 py-1.5 max-w-[12rem] truncate" title={s.produto}>{s.produto}</td>
+                  <td className="px-3 py-1.5">{s.cor}</td>
+                  <td className="px-3 py-1.5">{s.tamanho}</td>
+                  <td className="px-3 py-1.5 text-right">{s.qtdCortada || '-'}</td>
+                  <td className="px-3 py-1.5 text-right">{s.qtdCortada > 0 ? `${s.percentualVendido.toFixed(1)}%` : '-'}</td>
+                  <td className="px-3 py-1.5 text-right">{formatNumber(s.estoqueAtual)}</td>
+                  <td className="px-3 py-1.5 text-right">{formatNumber(s.vendaDiaria)}</td>
+                  <td className="px-3 py-1.5 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      value={s.sugerido}
+                      onChange={(e) => setEdits({ ...edits, [s.id]: Math.max(Math.round(Number(e.target.value) || 0), 0) })}
+                      className={`${inputClass} text-right ${edits[s.id] !== undefined ? 'bg-yellow-50' : ''}`}
+                    />
+                  </td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={9} className="px-3 py-8 text-center text-gray-400">Nenhum SKU precisa de reposição com estes parâmetros.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between p-6 border-t border-gray-100 text-sm text-gray-600">
+          <span>{finalSuggestions.filter(s => s.sugerido > 0).length} SKUs · {formatNumber(totalPieces)} peças</span>
+          <span className="text-xs text-gray-400">Quantidade 0 tira o SKU da ordem de corte.</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecutModal;
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { CleanedSaleRecord, DateRange, SalesValueKey, TimeGranularity, TimeSeriesPoint } from '../types';
+import { buildTimeSeries, MOVING_AVERAGE_WINDOW } from '../services/dataProcessing';
+
+interface SalesTimelineProps {
+  data: CleanedSaleRecord[];
+  previousData: CleanedSaleRecord[]; // same filters, one year earlier
+  range: DateRange;
+  valueKey: SalesValueKey;
+  formatValue: (val: number) => string;
+  onSelectRange: (range: DateRange) => void;
+}
+
+const GRANULARITIES: { key: TimeGranularity; label: string; unit: string }[] = [
+  { key: 'day', label: 'Dia', unit: 'dias' },
+  { key: 'week', label: 'Semana', unit: 'semanas' },
+  { key: 'month', label: 'Mês', unit: 'meses' },
+];
+
+const TITLES: Record<SalesValueKey, string> = {
+  valorTotal: 'Faturamento no Tempo',
+  quantidade: 'Vendas (Qtd) no Tempo',
+  margem: 'Margem no Tempo',
+};
+
+const SalesTimeline: React.FC<SalesTimelineProps> = ({ data, previousData, range, valueKey, formatValue, onSelectRange }) => {
+  const [granularity, setGranularity] = useState<TimeGranularity>('month');
+  const [showPrevious, setShowPrevious] = useState(false);
+  const [showMovingAverage, setShowMovingAverage] = useState(true);
+
+  const series = useMemo(
+    () => buildTimeSeries(data, range, granularity, valueKey, showPrevious ? previousData : undefined),
+    [data, previousData, range, granularity, valueKey, showPrevious]
+  );
+
+  const granularityInfo = GRANULARITIES.find(g => g.key === granularity)!;
+
+  // Clicking a bucket narrows the period to it (clamped to the current range)
+  const handleClick = (state: any) => {
+    const point: TimeSeriesPoint | undefined = state?.activePayload?.[0]?.payload;
+    if (!point) return;
+    onSelectRange({
+      start: point.bucket < range.start ? range.start : point.bucket,
+      end: point.end > range.end ? range.end : point.end,
+    });
+  };
+
+  const TimelineTooltip = ({ active, payload }: any) => {
+    if (!active || !payload || payload.length === 0) return null;
+    const point: TimeSeriesPoint = payload[0].payload;
+    const change = point.previous ? ((point.value - point.previous) / Math.abs(point.previous)) * 100 : null;
+    return (
+      <div className="bg-white p-3 border border-gray-200 shadow-lg rounded text-sm">
+        <p className="font-bold mb-1">{point.bucket === point.end ? point.label : `${point.bucket.split('-').reverse().join('/')} a ${point.end.split('-').reverse().join('/')}`}</p>
+        <p className="text-[#adb85c] font-semibold">{formatValue(point.value)}</p>
+        {point.previous !== undefined && (
+          <p className="text-gray-500 text-xs mt-1">
+            Ano anterior: {formatValue(point.previous)}
+            {change !== null && <span className={change >= 0 ? 'text-green-600' : 'text-red-500'}> ({change >= 0 ? '+' : ''}{change.toFixed(1)}%)</span>}
+          </p>
+        )}
+        {showMovingAverage && point.movingAverage !== undefined && (
+          <p className="text-gray-500 text-xs mt-1">Média móvel: {formatValue(point.movingAverage)}</p>
+        )}
+        <p className="text-gray-400 text-[10px] mt-1">Clique para filtrar este período</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-lg font-bold text-gray-800">{TITLES[valueKey]}</h3>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showPrevious}
+              onChange={(e) => setShowPrevious(e.target.checked)}
+              className="rounded border-gray-300 text-[#adb85c] focus:ring-[#adb85c]"
+            />
+            Ano anterior
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showMovingAverage}
+              onChange={(e) => setShowMovingAverage(e.target.checked)}
+              className="rounded border-gray-300 text-[#adb85c] focus:ring-[#adb85c]"
+            />
+            Média móvel
+          </label>
+          <div className="flex bg-gray-100 p-1 rounded-lg">
+            {GRANULARITIES.map(g => (
+              <button
+                key={g.key}
+                onClick={() => setGranularity(g.key)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${granularity === g.key ? 'bg-white text-[#adb85c] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {g.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="h-80 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={series} onClick={handleClick} margin={{ top: 10, right: 10, left: 10, bottom: 10 }} style={{ cursor: 'pointer' }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#eee" />
+            <XAxis dataKey="label" tick={{fontSize: 10}} minTickGap={10} />
+            <YAxis tick={{fontSize: 10}} tickFormatter={(val: number) => formatValue(val).replace(/,\d{2}$/, '')} width={90} />
+            <Tooltip content={<TimelineTooltip />} />
+            <Legend verticalAlign="top" height={30} iconType="circle" />
+            <Bar dataKey="value" name="Período" fill="#adb85c" radius={[2, 2, 0, 0]} />
+            {showPrevious && (
+              <Line type="monotone" dataKey="previous" name="Ano anterior" stroke="#9ca3af" strokeDasharray="5 5" dot={false} strokeWidth={2} />
+            )}
+            {showMovingAverage && (
+              <Line
+                type="monotone"
+                dataKey="movingAverage"
+                name={`Média móvel (${MOVING_AVERAGE_WINDOW[granularity]} ${granularityInfo.unit})`}
+                stroke="#606633"
+                dot={false}
+                strokeWidth={2}
+              />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default SalesTimeline;
@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, Star, Pencil, Trash2, Download, Upload, Check } from 'lucide-react';
+import { DashboardView, DateRange, SavedView } from '../types';
+import { DATE_PRESETS } from '../services/dateRanges';
+import { encodeView } from '../services/viewState';
+import {
+  loadSavedViews, saveSavedViews, createSavedView, upsertSavedView, renameSavedView, deleteSavedView, isNameTaken,
+  setDefaultView, resolveSavedView, exportSavedViews, importSavedViews,
+} from '../services/savedViews';
+
+interface SavedViewsMenuProps {
+  currentView: DashboardView;
+  bounds: DateRange; // first and last dates with sales
+  onApply: (view: DashboardView) => void;
+}
+
+const inputClass = 'flex-1 min-w-0 border border-gray-300 rounded-lg text-sm py-1 px-2 focus:ring-[#adb85c] focus:border-[#adb85c]';
+
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ currentView, bounds, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [views, setViews] = useState<SavedView[]>(loadSavedViews);
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const updateViews = (next: SavedView[]) => {
+    setViews(next);
+    saveSavedViews(next);
+  };
+
+  // Compared through the URL encoding, so equal views match regardless of how they were reached
+  const currentKey = encodeView(currentView, bounds);
+  const isActive = (saved: SavedView) => encodeView(resolveSavedView(saved, bounds), bounds) === currentKey;
+
+  const handleSave = () => {
+    if (!newName.trim()) return;
+    const saved = createSavedView(newName, currentView, bounds);
+    updateViews(upsertSavedView(views, saved));
+    setNewName('');
+    setMessage({ text: `Visão "${saved.name}" salva.`, error: false });
+  };
+
+  const handleApply = (saved: SavedView) => {
+    onApply(resolveSavedView(saved, bounds));
+    setOpen(false);
+  };
+
+  const handleRename = () => {
+    if (editing && isNameTaken(views, editing.name, editing.id)) {
+      setMessage({ text: `Já existe uma visão chamada "${editing.name.trim()}".`, error: true });
+      return;
+    }
+    if (editing && editing.name.trim()) updateViews(renameSavedView(views, editing.id, editing.name));
+    setEditing(null);
+    setMessage(null);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const next = await importSavedViews(file, views);
+      updateViews(next);
+      setMessage({ text: `${next.length} visões disponíveis após a importação.`, error: false });
+    } catch (err) {
+      console.error(err);
+      setMessage({ text: 'Não foi possível importar. Verifique se o arquivo JSON foi exportado por este painel.', error: true });
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => { setOpen(!open); setMessage(null); }}
+        className="flex items-center gap-1 text-sm text-gray-600 hover:text-[#adb85c] px-2"
+        title="Visões salvas (filtros, período, métrica e ordenação)"
+      >
+        <Bookmark className="w-4 h-4" />
+        Visões
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 mt-2 z-40 w-80 bg-white rounded-xl shadow-lg border border-gray-200 p-3 text-left">
+          <p className="text-xs font-bold text-gray-500 uppercase mb-2">Visões salvas</p>
+
+          <div className="max-h-72 overflow-y-auto space-y-0.5">
+            {views.length > 0 ? views.map(saved => (
+              <div key={saved.id} className={`group flex items-center gap-1 px-1 py-1 rounded ${isActive(saved) ? 'bg-[#f4f6e6]' : 'hover:bg-gray-50'}`}>
+                {editing?.id === saved.id ? (
+                  <>
+                    <input
+                      type="text"
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                      onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setEditing(null); }}
+                      className={inputClass}
+                      autoFocus
+                    />
+                    <button onClick={handleRename} className="p-1 text-[#8d9648] hover:text-[#adb85c]" title="Salvar nome">
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => handleApply(saved)} className="flex-1 min-w-0 text-left text-sm text-gray-700">
+                      <span className="block truncate font-medium">{saved.name}</span>
+                      {saved.datePreset && (
+                        <span className="block text-xs text-gray-400">{DATE_PRESETS.find(p => p.key === saved.datePreset)?.label}</span>
+                      )}
+                    </button>
+                    <button
+                      onClick={() => updateViews(setDefaultView(views, saved.isDefault ? null : saved.id))}
+                      className={`p-1 ${saved.isDefault ? 'text-[#ffc658]' : 'text-gray-300 hover:text-gray-500'}`}
+                      title={saved.isDefault ? 'Visão padrão (clique para remover)' : 'Abrir esta visão ao carregar o painel'}
+                    >
+                      <Star className="w-3.5 h-3.5" fill={saved.isDefault ? 'currentColor' : 'none'} />
+                    </button>
+                    <button
+                      onClick={() => setEditing({ id: saved.id, name: saved.name })}
+                      className="p-1 text-gray-300 hover:text-gray-500"
+                      title="Renomear"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => updateViews(deleteSavedView(views, saved.id))}
+                      className="p-1 text-gray-300 hover:text-red-500"
+                      title="Excluir"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                )}
+              </div>
+            )) : (
+              <p className="text-xs text-gray-400 px-1 py-2">Nenhuma visão salva ainda.</p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2 border-t border-gray-100 mt-2 pt-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              placeholder="Nome da visão atual"
+              className={inputClass}
+            />
+            <button
+              onClick={handleSave}
+              disabled={!newName.trim()}
+              className="px-3 py-1 rounded-lg text-sm font-medium text-white bg-[#adb85c] hover:bg-[#9ca653] disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Salvar
+            </button>
+          </div>
+
+          <div className="flex items-center gap-4 mt-2 text-xs">
+            <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1 text-[#8d9648] hover:underline">
+              <Upload className="w-3 h-3" />
+              Importar
+            </button>
+            <button
+              onClick={() => exportSavedViews(views)}
+              disabled={views.length === 0}
+              className="flex items-center gap-1 text-[#8d9648] hover:underline disabled:opacity-40 disabled:no-underline"
+            >
+              <Download className="w-3 h-3" />
+              Exportar
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => handleImport(e.target.files?.[0])}
+            />
+          </div>
+          {message && (
+            <p className={`text-xs mt-2 ${message.error ? 'text-red-500' : 'text-green-600'}`}>{message.text}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { SizeGrid, SizeGridCell } from '../types';
+import { formatNumber } from '../services/dataProcessing';
+
+interface SizeGridModalProps {
+  grid: SizeGrid;
+  onClose: () => void;
+}
+
+// Red for cut that is stuck, brand green for sizes that sold out, purple when sales exceed the cut
+const heatStyle = (cell: SizeGridCell): React.CSSProperties => {
+  if (cell.qtdCortada === 0) return { backgroundColor: '#f9fafb' };
+  if (cell.percentualVendido > 100) return { backgroundColor: '#ede9fe' };
+  const hue = Math.round((Math.max(cell.percentualVendido, 0) / 100) * 68);
+  return { backgroundColor: `hsl(${hue}, 55%, 85%)` };
+};
+
+const CellContent = ({ cell, bold = false }: { cell: SizeGridCell; bold?: boolean }) => (
+  <>
+    <p className={`text-sm text-gray-800 ${bold ? 'font-bold' : 'font-medium'}`}>
+      {formatNumber(cell.qtdVendida)} <span className="text-gray-400 font-normal">/ {formatNumber(cell.qtdCortada)}</span>
+    </p>
+    <p className="text-[11px] text-gray-600">{cell.qtdCortada > 0 ? `${cell.percentualVendido.toFixed(0)}%` : 'sem corte'}</p>
+  </>
+);
+
+const SizeGridModal: React.FC<SizeGridModalProps> = ({ grid, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+    <div
+      className="bg-white rounded-2xl shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col text-left"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between p-6 border-b border-gray-100">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800">Grade {grid.codigo}</h2>
+          <p className="text-xs text-gray-500">{grid.produto} · vendido / cortado e giro por cor e tamanho</p>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Fechar">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 overflow-auto">
+        <table className="w-full text-center border-separate border-spacing-1">
+          <thead className="text-xs text-gray-700 uppercase">
+            <tr>
+              <th className="px-3 py-2 text-left bg-gray-50 rounded">Cor</th>
+              {grid.sizes.map(size => (
+                <th key={size} className="px-3 py-2 bg-gray-50 rounded">{size}</th>
+              ))}
+              <th className="px-3 py-2 bg-gray-100 rounded">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {grid.rows.map(row => (
+              <tr key={row.cor}>
+                <td className="px-3 py-2 text-left text-sm font-medium text-gray-800 whitespace-nowrap">{row.cor}</td>
+                {row.cells.map((cell, i) => cell ? (
+                  <td key={grid.sizes[i]} className="px-3 py-2 rounded" style={heatStyle(cell)}>
+                    <CellContent cell={cell} />
+                  </td>
+                ) : (
+                  <td key={grid.sizes[i]} className="px-3 py-2 rounded bg-gray-50 text-gray-300">-</td>
+                ))}
+                <td className="px-3 py-2 rounded bg-gray-100">
+                  <CellContent cell={row.total} bold />
+                </td>
+              </tr>
+            ))}
+            <tr>
+              <td className="px-3 py-2 text-left text-xs font-bold text-gray-700 uppercase">Total</td>
+              {grid.sizeTotals.map((cell, i) => (
+                <td key={grid.sizes[i]} className="px-3 py-2 rounded bg-gray-100">
+                  <CellContent cell={cell} bold />
+                </td>
+              ))}
+              <td className="px-3 py-2 rounded bg-gray-200">
+                <CellContent cell={grid.total} bold />
+              </td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-500">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded" style={{ backgroundColor: 'hsl(0, 55%, 85%)' }}></span> Giro baixo (parado)</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded" style={{ backgroundColor: 'hsl(68, 55%, 85%)' }}></span> Giro alto (esgotando)</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-[#ede9fe]"></span> Vendeu mais que o corte</span>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default SizeGridModal;
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Archive } from 'lucide-react';
+import { CleanedSaleRecord, CoverageLevel, StockCoverage } from '../types';
+import { formatNumber } from '../services/dataProcessing';
+import { COVERAGE_LEVELS, VELOCITY_WINDOWS, computeStockCoverage, stockOutRisk, excessCoverage, formatCoverage } from '../services/stockCoverage';
+
+interface StockCoveragePanelProps {
+  data: CleanedSaleRecord[]; // filtered sales up to the end of the period, before the period start too
+  endDate: string;
+  windowWeeks: number;
+  onWindowChange: (weeks: number) => void;
+}
+
+const MAX_LISTED = 15;
+
+const inputClass = 'border border-gray-300 rounded-lg text-sm py-1 px-2 w-16 focus:ring-[#adb85c] focus:border-[#adb85c]';
+
+const CoverageList = ({ title, icon, items, tone }: { title: string; icon: React.ReactNode; items: StockCoverage[]; tone: string }) => (
+  <div className="border border-gray-100 rounded-xl overflow-hidden">
+    <div className={`flex items-center gap-2 px-4 py-3 text-sm font-bold ${tone}`}>
+      {icon}
+      {title}
+      <span className="ml-auto text-xs font-medium">{items.length}</span>
+    </div>
+    <table className="w-full text-xs text-gray-600">
+      <thead className="uppercase bg-gray-50 text-gray-700">
+        <tr>
+          <th className="px-3 py-2 text-left">Item</th>
+          <th className="px-3 py-2 text-right">Estoque</th>
+          <th className="px-3 py-2 text-right">Venda/dia</th>
+          <th className="px-3 py-2 text-right">Cobertura</th>
+        </tr>
+      </thead>
+      <tbody>
+        {items.length > 0 ? items.slice(0, MAX_LISTED).map(item => (
+          <tr key={item.id} className="border-t border-gray-100">
+            <td className="px-3 py-1.5 max-w-[14rem] truncate font-medium text-gray-800" title={item.name}>{item.name}</td>
+            <td className="px-3 py-1.5 text-right">{formatNumber(item.estoque)}</td>
+            <td className="px-3 py-1.5 text-right">{formatNumber(item.vendaDiaria)}</td>
+            <td className="px-3 py-1.5 text-right whitespace-nowrap">{formatCoverage(item.diasCobertura)}</td>
+          </tr>
+        )) : (
+          <tr>
+            <td colSpan={4} className="px-3 py-6 text-center text-gray-400">Nenhum item nesta lista.</td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+    {items.length > MAX_LISTED && (
+      <p className="text-xs text-gray-400 px-3 py-2">Mostrando {MAX_LISTED} de {items.length}.</p>
+    )}
+  </div>
+);
+
+const StockCoveragePanel: React.FC<StockCoveragePanelProps> = ({ data, endDate, windowWeeks, onWindowChange }) => {
+  const [level, setLevel] = useState<CoverageLevel>('sku');
+  const [riskDays, setRiskDays] = useState(14);
+  const [excessDays, setExcessDays] = useState(90);
+
+  const coverage = useMemo(
+    () => endDate ? computeStockCoverage(data, level, windowWeeks, endDate) : [],
+    [data, level, windowWeeks, endDate]
+  );
+  const risk = useMemo(() => stockOutRisk(coverage, riskDays), [coverage, riskDays]);
+  const excess = useMemo(() => excessCoverage(coverage, excessDays), [coverage, excessDays]);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-2">
+        <h3 className="text-lg font-bold text-gray-800">Cobertura de Estoque</h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            Velocidade:
+            <select
+              value={windowWeeks}
+              onChange={(e) => onWindowChange(Number(e.target.value))}
+              className="border border-gray-300 rounded-lg text-sm py-1.5 px-3 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white"
+            >
+              {VELOCITY_WINDOWS.map(w => <option key={w} value={w}>Últimas {w} semanas</option>)}
+            </select>
+          </label>
+          <div className="flex bg-gray-100 p-1 rounded-lg">
+            {COVERAGE_LEVELS.map(l => (
+              <button
+                key={l.key}
+                onClick={() => setLevel(l.key)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${level === l.key ? 'bg-white text-[#adb85c] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {l.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-400 mb-4">
+        Estoque mais recente de cada SKU por loja até o fim do período, dividido pela venda média diária da janela escolhida.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+            Acaba em até
+            <input type="number" min={1} value={riskDays} onChange={(e) => setRiskDays(Math.max(Number(e.target.value), 1))} className={inputClass} />
+            dias
+          </label>
+          <CoverageList
+            title="Risco de ruptura"
+            icon={<AlertTriangle className="w-4 h-4" />}
+            items={risk}
+            tone="bg-red-50 text-red-600"
+          />
+        </div>
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+            Cobertura acima de
+            <input type="number" min={1} value={excessDays} onChange={(e) => setExcessDays(Math.max(Number(e.target.value), 1))} className={inputClass} />
+            dias
+          </label>
+          <CoverageList
+            title="Cobertura excessiva"
+            icon={<Archive className="w-4 h-4" />}
+            items={excess}
+            tone="bg-yellow-50 text-yellow-700"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockCoveragePanel;
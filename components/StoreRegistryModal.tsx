@@ -0,0 +1,202 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Trash2, Upload, Download, AlertCircle } from 'lucide-react';
+import { StoreChannel, StoreRecord, StoreSize } from '../types';
+import { CHANNEL_LABELS, SIZE_LABELS, mergeStores, exportStores } from '../services/storeRegistry';
+import { aliasKey, loadRules } from '../services/normalizationRules';
+import { readSheetRows, detectStoreMapping, buildStoreRecords } from '../services/dataProcessing';
+
+interface StoreRegistryModalProps {
+  stores: StoreRecord[];
+  lojas: string[]; // stores present in the loaded sales, listed even when not registered yet
+  onSave: (stores: StoreRecord[]) => void;
+  onClose: () => void;
+}
+
+const emptyStore = (loja: string): StoreRecord => ({ loja, regiao: '', canal: '', porte: '', dataAbertura: '' });
+
+const inputClass = 'border border-gray-300 rounded-lg text-sm py-1 px-2 focus:ring-[#adb85c] focus:border-[#adb85c] bg-white';
+
+const StoreRegistryModal: React.FC<StoreRegistryModalProps> = ({ stores, lojas, onSave, onClose }) => {
+  const [draft, setDraft] = useState<StoreRecord[]>(() => {
+    const known = new Set(stores.map(s => aliasKey(s.loja)));
+    return mergeStores(stores, lojas.filter(l => !known.has(aliasKey(l))).map(emptyStore));
+  });
+  const [newLoja, setNewLoja] = useState('');
+  const [message, setMessage] = useState<{ type: 'ok' | 'error'; text: string } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const updateStore = (index: number, changes: Partial<StoreRecord>) => {
+    setDraft(prev => prev.map((s, i) => i === index ? { ...s, ...changes } : s));
+  };
+
+  const handleAddStore = () => {
+    if (!newLoja.trim() || draft.some(s => aliasKey(s.loja) === aliasKey(newLoja))) return;
+    setDraft(prev => mergeStores(prev, [emptyStore(newLoja.trim())]));
+    setNewLoja('');
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const rows = await readSheetRows(file, true);
+      const result = buildStoreRecords(rows, detectStoreMapping(rows), { rules: loadRules() });
+      if (result.records.length === 0) throw new Error('Nenhuma loja encontrada');
+      setDraft(prev => mergeStores(prev, result.records));
+      const ignored = result.report.totalRows - result.report.acceptedRows;
+      setMessage({ type: 'ok', text: `${result.records.length} lojas importadas${ignored > 0 ? `, ${ignored} linhas ignoradas` : ''}.` });
+    } catch (err) {
+      console.error(err);
+      setMessage({ type: 'error', text: 'Não foi possível ler o cadastro. Use uma planilha com as colunas Loja, Região, Canal, Porte e Data de Abertura.' });
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col text-left"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Cadastro de Lojas</h2>
+            <p className="text-xs text-gray-500">Região, canal, porte e data de abertura de cada loja. Lojas abertas há menos de 12 meses ficam fora da visão de lojas comparáveis.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileRef.current?.click()}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-[#8d9648] border border-[#adb85c]/40 hover:bg-[#f4f6e6]"
+            >
+              <Upload className="w-4 h-4" />
+              Importar planilha
+            </button>
+            <button
+              onClick={() => exportStores(draft)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-[#8d9648] border border-[#adb85c]/40 hover:bg-[#f4f6e6]"
+            >
+              <Download className="w-4 h-4" />
+              Baixar (.xlsx)
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".xlsx, .xls, .ods, .csv"
+              className="hidden"
+              onChange={(e) => handleUpload(e.target.files?.[0])}
+            />
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Fechar">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {message && (
+            <div className={`mb-4 flex items-center gap-2 text-sm p-3 rounded-lg ${message.type === 'ok' ? 'text-green-600 bg-green-50' : 'text-red-600 bg-red-50'}`}>
+              {message.type === 'error' && <AlertCircle className="w-4 h-4 flex-shrink-0" />}
+              <span>{message.text}</span>
+            </div>
+          )}
+
+          <table className="w-full text-sm text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left">Loja</th>
+                <th className="px-3 py-2 text-left">Região</th>
+                <th className="px-3 py-2 text-left">Canal</th>
+                <th className="px-3 py-2 text-left">Porte</th>
+                <th className="px-3 py-2 text-left">Abertura</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((store, i) => (
+                <tr key={store.loja} className="border-b border-gray-100">
+                  <td className="px-3 py-1.5 font-medium text-gray-800">{store.loja}</td>
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="text"
+                      value={store.regiao}
+                      onChange={(e) => updateStore(i, { regiao: e.target.value })}
+                      placeholder="Ex.: Sudeste"
+                      className={`${inputClass} w-full`}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <select
+                      value={store.canal}
+                      onChange={(e) => updateStore(i, { canal: e.target.value as StoreChannel | '' })}
+                      className={inputClass}
+                    >
+                      <option value="">—</option>
+                      {(Object.keys(CHANNEL_LABELS) as StoreChannel[]).map(c => (
+                        <option key={c} value={c}>{CHANNEL_LABELS[c]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <select
+                      value={store.porte}
+                      onChange={(e) => updateStore(i, { porte: e.target.value as StoreSize | '' })}
+                      className={inputClass}
+                    >
+                      <option value="">—</option>
+                      {(Object.keys(SIZE_LABELS) as StoreSize[]).map(p => (
+                        <option key={p} value={p}>{SIZE_LABELS[p]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="date"
+                      value={store.dataAbertura}
+                      onChange={(e) => updateStore(i, { dataAbertura: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    <button onClick={() => setDraft(prev => prev.filter((_, idx) => idx !== i))} className="p-1 text-gray-400 hover:text-red-500" title="Remover">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              <tr>
+                <td className="px-3 py-1.5" colSpan={5}>
+                  <input
+                    type="text"
+                    value={newLoja}
+                    onChange={(e) => setNewLoja(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleAddStore(); }}
+                    placeholder="Nova loja"
+                    className={`${inputClass} w-48`}
+                  />
+                </td>
+                <td className="px-3 py-1.5 text-right">
+                  <button onClick={handleAddStore} className="p-1 rounded-lg text-[#adb85c] hover:bg-[#f4f6e6]" title="Adicionar loja">
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-2 p-6 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 border border-gray-300 hover:bg-gray-50">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft.filter(s => s.regiao || s.canal || s.porte || s.dataAbertura))}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-[#adb85c] hover:bg-[#9ca653]"
+          >
+            Salvar cadastro
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoreRegistryModal;
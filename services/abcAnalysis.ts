@@ -0,0 +1,44 @@
+import { AbcClass, AbcItem, AbcThresholds, AggregatedData } from '../types';
+import { loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'munny.abcThresholds';
+
+export const DEFAULT_ABC_THRESHOLDS: AbcThresholds = { a: 80, b: 15 };
+
+export const ABC_COLORS: Record<AbcClass, string> = { A: '#adb85c', B: '#ffc658', C: '#f87171' };
+
+const isThresholds = (val: any): val is AbcThresholds => !!val && typeof val.a === 'number' && typeof val.b === 'number';
+
+export const loadAbcThresholds = (): AbcThresholds => loadJson(STORAGE_KEY, DEFAULT_ABC_THRESHOLDS, isThresholds);
+
+export const saveAbcThresholds = (thresholds: AbcThresholds) => saveJson(STORAGE_KEY, thresholds);
+
+// Keeps both shares within 0-100 and their sum at most 100
+export const clampThresholds = ({ a, b }: AbcThresholds): AbcThresholds => {
+  const safeA = Math.min(Math.max(a || 0, 0), 100);
+  return { a: safeA, b: Math.min(Math.max(b || 0, 0), 100 - safeA) };
+};
+
+// Ranks by value; an item belongs to the class where its share starts, so the item that crosses
+// the A limit is still A. Zero or negative values (e.g. margin losses) are always C.
+export const classifyAbc = (data: AggregatedData[], thresholds: AbcThresholds): AbcItem[] => {
+  const ranked = [...data].sort((a, b) => b.value - a.value);
+  const total = ranked.reduce((acc, item) => acc + Math.max(item.value, 0), 0);
+  let cumulative = 0;
+
+  return ranked.map(item => {
+    const share = total > 0 ? (Math.max(item.value, 0) / total) * 100 : 0;
+    const before = cumulative;
+    cumulative += share;
+    let abc: AbcClass = 'C';
+    if (item.value > 0 && before < thresholds.a) abc = 'A';
+    else if (item.value > 0 && before < thresholds.a + thresholds.b) abc = 'B';
+    return { ...item, share, cumulativeShare: cumulative, abc };
+  });
+};
+
+export const summarizeAbc = (items: AbcItem[]): { abc: AbcClass; count: number; share: number }[] =>
+  (['A', 'B', 'C'] as AbcClass[]).map(abc => {
+    const inClass = items.filter(i => i.abc === abc);
+    return { abc, count: inClass.length, share: inClass.reduce((acc, i) => acc + i.share, 0) };
+  });
@@ -0,0 +1,83 @@
+import { CleanedSaleRecord, CollectionLifecycle, CorteRecord, LifecyclePoint } from '../types';
+import { cutAttributes } from './dataProcessing';
+import { daysBetween } from './dateRanges';
+import { isRecordOf, isString, loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'munny.collectionLaunches';
+
+export const LIFECYCLE_WEEKS = [12, 26, 52];
+
+// colecao -> yyyy-mm-dd launch date set by hand
+export const loadLaunchOverrides = (): Record<string, string> => loadJson(STORAGE_KEY, {}, isRecordOf(isString));
+
+export const saveLaunchOverrides = (overrides: Record<string, string>) => saveJson(STORAGE_KEY, overrides);
+
+// First date each collection sold a piece; returns and exchanges don't mark a launch
+export const deriveLaunchDates = (sales: CleanedSaleRecord[]): Map<string, string> => {
+  const launches = new Map<string, string>();
+  sales.forEach(item => {
+    if (!item.colecao || item.quantidade <= 0) return;
+    const current = launches.get(item.colecao);
+    if (!current || item.data < current) launches.set(item.colecao, item.data);
+  });
+  return launches;
+};
+
+const cutByCollection = (sales: CleanedSaleRecord[], corte: CorteRecord[]): Map<string, number> => {
+  const attributes = cutAttributes(sales, corte);
+  const totals = new Map<string, number>();
+  corte.forEach(item => {
+    const colecao = attributes.get(item.codigo)?.colecao;
+    if (colecao) totals.set(colecao, (totals.get(colecao) || 0) + item.quantidade);
+  });
+  return totals;
+};
+
+// Weekly curves aligned on each collection's launch. A curve stops at the collection's current age
+// (the last date in the data), so a collection in its 5th week only has 5 points.
+// Sales dated before a manual launch date count in week 0.
+export const buildLifecycles = (
+  sales: CleanedSaleRecord[],
+  corte: CorteRecord[],
+  collections: string[],
+  overrides: Record<string, string>,
+  maxWeeks: number
+): CollectionLifecycle[] => {
+  if (sales.length === 0) return [];
+  const derived = deriveLaunchDates(sales);
+  const cut = cutByCollection(sales, corte);
+  const lastDate = sales.reduce((max, item) => item.data > max ? item.data : max, sales[0].data);
+
+  return collections.flatMap(colecao => {
+    const lancamento = overrides[colecao] || derived.get(colecao);
+    if (!lancamento) return [];
+    const weeks = Math.min(Math.floor(Math.max(daysBetween(lancamento, lastDate), 0) / 7) + 1, maxWeeks);
+    const weekly: number[] = Array(weeks).fill(0);
+    sales.forEach(item => {
+      if (item.colecao !== colecao) return;
+      const week = Math.max(Math.floor(daysBetween(lancamento, item.data) / 7), 0);
+      if (week < weeks) weekly[week] += item.quantidade;
+    });
+
+    const qtdCortada = cut.get(colecao) || 0;
+    let acumulado = 0;
+    const points: LifecyclePoint[] = weekly.map((qtdVendida, semana) => {
+      acumulado += qtdVendida;
+      return {
+        semana,
+        qtdVendida,
+        acumulado,
+        percentualVendido: qtdCortada > 0 ? (acumulado / qtdCortada) * 100 : null,
+      };
+    });
+
+    return [{ colecao, lancamento, lancamentoManual: !!overrides[colecao], qtdCortada, points }];
+  });
+};
+
+// Collections ordered from the most recent launch, the default overlay being the latest few
+export const collectionsByLaunch = (sales: CleanedSaleRecord[], overrides: Record<string, string>): string[] => {
+  const derived = deriveLaunchDates(sales);
+  const launchOf = (colecao: string) => overrides[colecao] || derived.get(colecao) || '';
+  return Array.from(derived.keys()).sort((a, b) => launchOf(b).localeCompare(launchOf(a)));
+};
@@ -1,15 +1,29 @@
-import { CleanedSaleRecord, AggregatedData, DashboardMetrics, DetailedTableRow, CorteRecord } from '../types';
+import {
+  CleanedSaleRecord, AggregatedData, DashboardMetrics, DetailedTableRow, CorteRecord, ProductRecord, ProductAttributes,
+  SalesField, CorteField, CatalogField, CatalogColumnMapping, StoreField, StoreColumnMapping, StoreRecord, MatchConfidence, ColumnMatch, ColumnMapping, SalesColumnMapping, CorteColumnMapping, FieldDefinition,
+  NumberLocale, DateFormat, ImportFileKind, TransactionType, ImportIssue, ImportIssueReason, ImportResult,
+  ImportSource, SheetData, MergeSummary, ReadOptions, SheetReaderRequest, SheetReaderResponse, NormalizationRules,
+  DateRange, TimeGranularity, TimeSeriesPoint, SalesValueKey, SizeGrid, SizeGridCell
+} from '../types';
 import * as XLSX from 'xlsx';
+import { parseWorkbookBuffer } from './sheetParser';
+import { DEFAULT_SIZE_ORDER, normalizeValue } from './normalizationRules';
+import { parseChannel, parseSize } from './storeRegistry';
+import { addDays, addYears } from './dateRanges';
 
 // Helper to normalize keys slightly
 const normalizeStr = (val: any): string => String(val || '').toLowerCase().trim();
 
-const cleanNumber = (val: any): number => {
+const cleanNumber = (val: any, locale: NumberLocale = 'auto'): number => {
   if (typeof val === 'number') return val;
   if (typeof val === 'string') {
     let clean = val.trim();
     // Remove non-numeric chars except , . -
     clean = clean.replace(/[^\d,.-]/g, ''); 
+
+    // Known locale from an import profile: no guessing needed
+    if (locale === 'pt-BR') return parseFloat(clean.replace(/\./g, '').replace(',', '.')) || 0;
+    if (locale === 'en-US') return parseFloat(clean.replace(/,/g, '')) || 0;
     
     // Heuristic for BRL vs US parsing
     const lastDotIndex = clean.lastIndexOf('.');
@@ -43,7 +57,7 @@ const ptMonths: { [key: string]: number } = {
   'jul': 6, 'ago': 7, 'set': 8, 'out': 9, 'nov': 10, 'dez': 11
 };
 
-const formatDate = (val: any): string => {
+const formatDate = (val: any, dateFormat: DateFormat = 'auto'): string => {
   if (val === null || val === undefined || val === '') return '';
   
   // 1. Handle Excel Date Object
@@ -68,6 +82,17 @@ const formatDate = (val: any): string => {
   // 3. Handle Strings
   if (typeof val === 'string') {
       const v = val.trim();
+      if (dateFormat === 'mm/dd/yyyy' || dateFormat === 'yyyy-mm-dd') {
+        const parts = v.match(/^(\d{1,4})[\/\-.](\d{1,2})[\/\-.](\d{1,4})/);
+        if (!parts) return '';
+        const [y, m, d] = dateFormat === 'yyyy-mm-dd'
+          ? [parts[1], parts[2], parts[3]]
+          : [parts[3], parts[1], parts[2]];
+        let year = parseInt(y);
+        if (year < 100) year += 2000;
+        if (year < 2000) return '';
+        return `${year}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+      }
       const brDateMatch = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
       if (brDateMatch) {
         const day = brDateMatch[1].padStart(2, '0');
@@ -99,204 +124,737 @@ const formatDate = (val: any): string => {
   return '';
 };
 
-export const parseExcelFile = async (file: File): Promise<CleanedSaleRecord[]> => {
+// Movement-type column wins; without it, negative amounts mark a return
+const classifyTransaction = (rawType: any, quantidade: number, valorTotal: number): TransactionType => {
+  const label = normalizeStr(rawType);
+  if (label.includes('devol') || label.includes('estorno')) return 'devolucao';
+  if (label.includes('troca')) return 'troca';
+  if (quantidade < 0 || valorTotal < 0) return 'devolucao';
+  return 'venda';
+};
+
+// --- Column detection ---
+
+interface FieldRule {
+  keywords: string[];
+  exact?: boolean; // header must equal the keyword instead of containing it
+  confidence: MatchConfidence;
+}
+
+interface FieldSpec<F extends string> extends FieldDefinition<F> {
+  rules: FieldRule[];
+  fallback?: number; // positional guess used when no header matches
+}
+
+const SALES_HEADER_KEYWORDS = ['loja', 'filial', 'categoria', 'produto', 'cor', 'tamanho', 'valor', 'total', 'qtd', 'quant', 'código', 'codigo'];
+const CORTE_HEADER_KEYWORDS = ['produto', 'referência', 'codigo', 'cor', 'tamanho', 'qtd', 'cortada'];
+const STORE_HEADER_KEYWORDS = ['loja', 'filial', 'região', 'regiao', 'canal', 'porte', 'abertura', 'inauguração'];
+const CATALOG_HEADER_KEYWORDS = ['código', 'codigo', 'referência', 'descrição', 'descricao', 'categoria', 'coleção', 'colecao', 'preço', 'preco', 'custo'];
+
+const SALES_FIELD_SPECS: FieldSpec<SalesField>[] = [
+  { key: 'data', label: 'Data', required: true, rules: [{ keywords: ['data', 'emissao', 'venda', 'periodo', 'mês'], confidence: 'high' }], fallback: 0 },
+  { key: 'loja', label: 'Loja', rules: [{ keywords: ['loja', 'filial'], confidence: 'high' }] },
+  { key: 'codigo', label: 'Código', required: true, rules: [{ keywords: ['código', 'codigo', 'referência', 'referencia', 'ref'], confidence: 'high' }], fallback: 2 },
+  { key: 'produto', label: 'Descrição', rules: [{ keywords: ['produto', 'descricao', 'descrição'], confidence: 'high' }], fallback: 3 },
+  { key: 'categoria', label: 'Categoria', rules: [{ keywords: ['categoria'], confidence: 'high' }] },
+  { key: 'subCategoria', label: 'Sub-Categoria', rules: [{ keywords: ['sub', 'grupo'], confidence: 'medium' }] },
+  { key: 'cor', label: 'Cor', rules: [{ keywords: ['cor'], confidence: 'high' }], fallback: 4 },
+  { key: 'tamanho', label: 'Tamanho', rules: [{ keywords: ['tamanho', 'tam'], confidence: 'high' }], fallback: 5 },
+  { key: 'colecao', label: 'Coleção', rules: [{ keywords: ['coleção', 'colecao'], confidence: 'high' }], fallback: 6 },
+  { key: 'modelo', label: 'Modelo', rules: [{ keywords: ['modelo'], confidence: 'high' }], fallback: 8 },
+  {
+    key: 'quantidade', label: 'Quantidade', required: true,
+    rules: [
+      { keywords: ['quant', 'qtde', 'qtd', 'peças', 'pecas'], confidence: 'high' },
+      { keywords: ['total'], exact: true, confidence: 'medium' },
+    ],
+    fallback: 10,
+  },
+  {
+    key: 'valorTotal', label: 'Valor Total', required: true,
+    rules: [
+      { keywords: ['líquido', 'liquido', 'venda líquida', 'total líquido'], confidence: 'high' },
+      { keywords: ['valor total', 'venda'], confidence: 'medium' },
+      { keywords: ['valor'], confidence: 'medium' },
+    ],
+    fallback: 14,
+  },
+  { key: 'estoque', label: 'Estoque', rules: [{ keywords: ['estoque', 'saldo', 'disponivel', 'disponível', 'atual'], confidence: 'medium' }] },
+  {
+    key: 'tipoMovimento', label: 'Tipo de Movimento',
+    rules: [
+      { keywords: ['movimento', 'operação', 'operacao', 'natureza'], confidence: 'high' },
+      { keywords: ['tipo'], confidence: 'medium' },
+    ],
+  },
+  { key: 'custoUnitario', label: 'Custo Unitário', rules: [{ keywords: ['custo'], confidence: 'high' }] },
+];
+
+// CRITICAL FIX: Do NOT include 'produto' in the search for code/ref,
+// as it often matches the description column instead.
+// Fallbacks assume Col A = Ref, B = Desc, C = Color, D = Size, E = Qty.
+const CORTE_FIELD_SPECS: FieldSpec<CorteField>[] = [
+  { key: 'codigo', label: 'Código', required: true, rules: [{ keywords: ['código', 'codigo', 'referência', 'referencia', 'ref'], confidence: 'high' }], fallback: 0 },
+  { key: 'cor', label: 'Cor', rules: [{ keywords: ['cor'], confidence: 'high' }], fallback: 2 },
+  { key: 'tamanho', label: 'Tamanho', rules: [{ keywords: ['tamanho', 'tam'], confidence: 'high' }], fallback: 3 },
+  { key: 'quantidade', label: 'Quantidade', required: true, rules: [{ keywords: ['qtd', 'quantidade', 'total', 'cortado', 'corte'], confidence: 'high' }], fallback: 4 },
+];
+
+const CATALOG_FIELD_SPECS: FieldSpec<CatalogField>[] = [
+  { key: 'codigo', label: 'Código', required: true, rules: [{ keywords: ['código', 'codigo', 'referência', 'referencia', 'ref'], confidence: 'high' }], fallback: 0 },
+  { key: 'produto', label: 'Descrição', rules: [{ keywords: ['descricao', 'descrição', 'produto', 'nome'], confidence: 'high' }], fallback: 1 },
+  { key: 'categoria', label: 'Categoria', rules: [{ keywords: ['categoria'], confidence: 'high' }] },
+  { key: 'subCategoria', label: 'Sub-Categoria', rules: [{ keywords: ['sub', 'grupo'], confidence: 'medium' }] },
+  { key: 'modelo', label: 'Modelo', rules: [{ keywords: ['modelo'], confidence: 'high' }] },
+  { key: 'colecao', label: 'Coleção', rules: [{ keywords: ['coleção', 'colecao'], confidence: 'high' }] },
+  { key: 'precoLista', label: 'Preço de Lista', rules: [{ keywords: ['preço', 'preco', 'pvp', 'lista'], confidence: 'high' }, { keywords: ['valor'], confidence: 'medium' }] },
+  { key: 'custoUnitario', label: 'Custo Unitário', rules: [{ keywords: ['custo'], confidence: 'high' }] },
+];
+
+const STORE_FIELD_SPECS: FieldSpec<StoreField>[] = [
+  { key: 'loja', label: 'Loja', required: true, rules: [{ keywords: ['loja', 'filial'], confidence: 'high' }], fallback: 0 },
+  { key: 'regiao', label: 'Região', rules: [{ keywords: ['região', 'regiao', 'regional'], confidence: 'high' }, { keywords: ['uf', 'estado'], exact: true, confidence: 'medium' }] },
+  { key: 'canal', label: 'Canal', rules: [{ keywords: ['canal'], confidence: 'high' }, { keywords: ['tipo'], confidence: 'medium' }] },
+  { key: 'porte', label: 'Porte', rules: [{ keywords: ['porte'], confidence: 'high' }, { keywords: ['tamanho'], confidence: 'medium' }] },
+  { key: 'dataAbertura', label: 'Data de Abertura', rules: [{ keywords: ['abertura', 'inauguração', 'inauguracao'], confidence: 'high' }, { keywords: ['data'], confidence: 'medium' }] },
+];
+
+const toDefinitions = <F extends string>(specs: FieldSpec<F>[]): FieldDefinition<F>[] =>
+  specs.map(({ key, label, required }) => ({ key, label, required }));
+
+export const SALES_FIELDS: FieldDefinition<SalesField>[] = toDefinitions(SALES_FIELD_SPECS);
+export const CORTE_FIELDS: FieldDefinition<CorteField>[] = toDefinitions(CORTE_FIELD_SPECS);
+export const CATALOG_FIELDS: FieldDefinition<CatalogField>[] = toDefinitions(CATALOG_FIELD_SPECS);
+export const STORE_FIELDS: FieldDefinition<StoreField>[] = toDefinitions(STORE_FIELD_SPECS);
+
+// Spreadsheet-style column name (0 -> A, 27 -> AB)
+export const columnLetter = (index: number): string => XLSX.utils.encode_col(index);
+
+const findHeaderRow = (rows: any[][], keywords: string[]): number => {
+  for (let i = 0; i < Math.min(rows.length, 10); i++) {
+    const rowStr = (rows[i] || []).map(c => normalizeStr(c)).join(' ');
+    let matches = 0;
+    keywords.forEach(k => { if (rowStr.includes(k)) matches++; });
+    if (matches >= 2) return i;
+  }
+  return -1;
+};
+
+const detectMapping = <F extends string>(
+  rows: any[][],
+  specs: FieldSpec<F>[],
+  headerKeywords: string[],
+  headerRowIndex?: number
+): ColumnMapping<F> => {
+  const headerIdx = headerRowIndex ?? findHeaderRow(rows, headerKeywords);
+  const headers = headerIdx !== -1 ? (rows[headerIdx] || []).map(h => normalizeStr(h)) : [];
+
+  const columns = {} as Record<F, ColumnMatch>;
+  specs.forEach(spec => {
+    let match: ColumnMatch = { index: -1, confidence: 'none' };
+    for (const rule of spec.rules) {
+      const index = headers.findIndex(h => rule.keywords.some(k => rule.exact ? h === k : h.includes(k)));
+      if (index !== -1) {
+        match = { index, confidence: rule.confidence };
+        break;
+      }
+    }
+    if (match.index === -1 && spec.fallback !== undefined) {
+      match = { index: spec.fallback, confidence: 'low' };
+    }
+    columns[spec.key] = match;
+  });
+
+  return { headerRowIndex: headerIdx, columns, numberLocale: 'auto', dateFormat: 'auto' };
+};
+
+export const detectSalesMapping = (rows: any[][], headerRowIndex?: number): SalesColumnMapping =>
+  detectMapping(rows, SALES_FIELD_SPECS, SALES_HEADER_KEYWORDS, headerRowIndex);
+
+export const detectCorteMapping = (rows: any[][], headerRowIndex?: number): CorteColumnMapping =>
+  detectMapping(rows, CORTE_FIELD_SPECS, CORTE_HEADER_KEYWORDS, headerRowIndex);
+
+export const detectCatalogMapping = (rows: any[][], headerRowIndex?: number): CatalogColumnMapping =>
+  detectMapping(rows, CATALOG_FIELD_SPECS, CATALOG_HEADER_KEYWORDS, headerRowIndex);
+
+export const detectStoreMapping = (rows: any[][], headerRowIndex?: number): StoreColumnMapping =>
+  detectMapping(rows, STORE_FIELD_SPECS, STORE_HEADER_KEYWORDS, headerRowIndex);
+
+// Normalized header cells, without trailing blanks, used to recognise a known layout
+export const headerSignature = (rows: any[][], headerRowIndex: number): string[] => {
+  if (headerRowIndex === -1) return [];
+  const headers = Array.from(rows[headerRowIndex] || [], h => normalizeStr(h));
+  while (headers.length > 0 && headers[headers.length - 1] === '') headers.pop();
+  return headers;
+};
+
+// A mapping is uncertain when a required field was guessed by position or not found at all
+export const mappingNeedsReview = <F extends string>(mapping: ColumnMapping<F>, fields: FieldDefinition<F>[]): boolean =>
+  mapping.headerRowIndex === -1 ||
+  fields.some(f => f.required && ['low', 'none'].includes(mapping.columns[f.key].confidence));
+
+// --- Reading & building records ---
+
+// Parses off the main thread so large exports don't freeze the page; aborting terminates the worker
+export const readWorkbookSheets = async (file: File, cellDates = false, options: ReadOptions = {}): Promise<SheetData[]> => {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) throw new DOMException('Importação cancelada', 'AbortError');
+
+  if (typeof Worker === 'undefined') {
+    return parseWorkbookBuffer(await file.arrayBuffer(), file.name, cellDates, onProgress);
+  }
+
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary', cellDates: true });
-        const sheetName = workbook.SheetNames[0];
-        const sheet = workbook.Sheets[sheetName];
-        
-        const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1 });
-
-        if (rows.length === 0) {
-          resolve([]);
-          return;
-        }
+    const worker = new Worker(new URL('./sheetReader.worker.ts', import.meta.url), { type: 'module' });
 
-        let headerRowIndex = -1;
-        const keywords = ['loja', 'filial', 'categoria', 'produto', 'cor', 'tamanho', 'valor', 'total', 'qtd', 'quant', 'código', 'codigo'];
-        
-        for (let i = 0; i < Math.min(rows.length, 10); i++) {
-            const rowStr = rows[i].map(c => normalizeStr(c)).join(' ');
-            let matches = 0;
-            keywords.forEach(k => { if (rowStr.includes(k)) matches++; });
-            if (matches >= 2) { 
-                headerRowIndex = i;
-                break;
-            }
-        }
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException('Importação cancelada', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort);
 
-        const headers = headerRowIndex !== -1 ? rows[headerRowIndex].map(h => normalizeStr(h)) : [];
-        const findSpecificIdx = (kws: string[]) => headers.findIndex(h => kws.some(k => h.includes(k)));
-
-        const idxLoja = findSpecificIdx(['loja', 'filial']);
-        const idxCat = findSpecificIdx(['categoria']);
-        const idxSub = findSpecificIdx(['sub', 'grupo']);
-        let idxProd = findSpecificIdx(['produto', 'descricao', 'descrição']);
-        if (idxProd === -1) idxProd = 3; 
-
-        let idxCodigo = findSpecificIdx(['código', 'codigo', 'referência', 'referencia', 'ref']);
-        if (idxCodigo === -1) idxCodigo = 2; 
-
-        let idxCor = findSpecificIdx(['cor']);
-        if (idxCor === -1) idxCor = 4;
-
-        let idxTam = findSpecificIdx(['tamanho', 'tam']);
-        if (idxTam === -1) idxTam = 5; 
-        
-        let idxColecao = findSpecificIdx(['coleção', 'colecao']);
-        let idxModelo = findSpecificIdx(['modelo']);
-        let idxEstoque = findSpecificIdx(['estoque', 'saldo', 'disponivel', 'disponível', 'atual']);
-
-        if (idxColecao === -1) idxColecao = 6;
-        if (idxModelo === -1) idxModelo = 8;
-        
-        let idxQtd = findSpecificIdx(['quant', 'qtde', 'qtd', 'peças', 'pecas']);
-        if (idxQtd === -1) {
-             const exactTotalIdx = headers.findIndex(h => h === 'total');
-             if (exactTotalIdx !== -1) idxQtd = exactTotalIdx;
-        }
-        if (idxQtd === -1) idxQtd = 10;
-        
-        let idxVal = findSpecificIdx(['líquido', 'liquido', 'venda líquida', 'total líquido']);
-        if (idxVal === -1) idxVal = findSpecificIdx(['valor total', 'venda']);
-        if (idxVal === -1) idxVal = findSpecificIdx(['valor']);
-        if (idxVal === -1) idxVal = 14; 
-        
-        let idxData = findSpecificIdx(['data', 'emissao', 'venda', 'periodo', 'mês']);
-        if (idxData === -1) idxData = 0; 
-
-        const dataRows = headerRowIndex !== -1 ? rows.slice(headerRowIndex + 1) : rows;
-
-        const cleanedData: CleanedSaleRecord[] = dataRows.map((row, index) => {
-          const getVal = (idx: number) => (idx !== -1 && row[idx] !== undefined) ? row[idx] : null;
-
-          const rawData = getVal(idxData);
-          const rawQtd = getVal(idxQtd);
-          const rawVal = getVal(idxVal);
-          const rawEstoque = getVal(idxEstoque); 
-          
-          const quantidade = cleanNumber(rawQtd) || 0; 
-          const valorTotal = cleanNumber(rawVal);
-          const estoque = cleanNumber(rawEstoque) || 0;
-          const formattedDate = formatDate(rawData);
-
-          return {
-            id: `row-${index}`,
-            loja: idxLoja !== -1 ? String(getVal(idxLoja) || 'Outros').trim() : 'Outros',
-            codigo: idxCodigo !== -1 ? String(getVal(idxCodigo) || '').trim() : '',
-            categoria: idxCat !== -1 ? String(getVal(idxCat) || 'Outros').trim() : 'Outros',
-            subCategoria: idxSub !== -1 ? String(getVal(idxSub) || 'Outros').trim() : 'Outros',
-            produto: idxProd !== -1 ? String(getVal(idxProd) || 'Produto').trim() : 'Produto',
-            cor: idxCor !== -1 ? String(getVal(idxCor) || 'N/A').trim() : 'N/A',
-            tamanho: idxTam !== -1 ? String(getVal(idxTam) || 'U').trim() : 'U',
-            modelo: idxModelo !== -1 ? String(getVal(idxModelo) || 'N/A').trim() : 'N/A',
-            colecao: idxColecao !== -1 ? String(getVal(idxColecao) || 'N/A').trim() : 'N/A',
-            quantidade: quantidade,
-            valorTotal: valorTotal,
-            estoque: estoque,
-            data: formattedDate,
-          };
-        });
-
-        const validData = cleanedData.filter(d => d.data !== '' && (d.valorTotal > 0 || d.quantidade > 0));
-        validData.sort((a, b) => a.data.localeCompare(b.data));
-
-        resolve(validData);
-      } catch (error) {
-        reject(error);
+    worker.onmessage = (e: MessageEvent<SheetReaderResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'done') {
+        cleanup();
+        resolve(message.sheets);
+      } else {
+        cleanup();
+        reject(new Error(message.message));
       }
     };
+    worker.onerror = (error) => {
+      cleanup();
+      reject(error);
+    };
 
-    reader.onerror = (error) => reject(error);
-    reader.readAsBinaryString(file);
+    const request: SheetReaderRequest = { file, cellDates };
+    worker.postMessage(request);
   });
 };
 
-export const parseCorteFile = async (file: File): Promise<CorteRecord[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+export const readSheetRows = async (file: File, cellDates = false, options: ReadOptions = {}): Promise<any[][]> => {
+  const sheets = await readWorkbookSheets(file, cellDates, options);
+  return sheets[0]?.rows || [];
+};
+
+export const sourceLabel = (source: ImportSource) => `${source.fileName} › ${source.sheetName}`;
+
+// --- Import validation ---
+
+const isBlankRow = (row: any[]) => !row || Array.from(row).every(c => c === null || c === undefined || String(c).trim() === '');
+
+// Tells "year below 2000" apart from a value that is not a date at all
+const dateRejectReason = (val: any): ImportIssueReason => {
+  if (val instanceof Date) return val.getFullYear() < 2000 ? 'date_before_2000' : 'invalid_date';
+  if (typeof val === 'number') return val > 0 && val < 36526 ? 'date_before_2000' : 'invalid_date';
+  if (typeof val === 'string') {
+    const years = val.match(/\b\d{4}\b/g) || [];
+    if (years.some(y => parseInt(y) < 2000)) return 'date_before_2000';
+  }
+  return 'invalid_date';
+};
+
+// "1.234" or "1,234" without a known locale: thousands or decimals?
+const isAmbiguousNumber = (val: any, locale: NumberLocale): boolean => {
+  if (locale !== 'auto' || typeof val !== 'string') return false;
+  const clean = val.trim().replace(/[^\d,.-]/g, '');
+  const separators = clean.match(/[.,]/g) || [];
+  return separators.length === 1 && /[.,]\d{3}$/.test(clean);
+};
+
+const rowIssue = (
+  file: ImportFileKind,
+  mapping: ColumnMapping<string>,
+  index: number,
+  row: any[],
+  severity: ImportIssue['severity'],
+  reason: ImportIssueReason,
+  detail: string
+): ImportIssue => ({
+  file,
+  // 1-based spreadsheet row number, counting the header
+  rowNumber: mapping.headerRowIndex + index + 2,
+  severity,
+  reason,
+  detail,
+  values: Array.from(row || [], c => (c instanceof Date ? formatDate(c) : c ?? '')),
+});
+
+const unmappedFields = <F extends string>(mapping: ColumnMapping<F>, fields: FieldDefinition<F>[]): string[] =>
+  fields.filter(f => mapping.columns[f.key].index === -1).map(f => f.label);
+
+// --- Product catalog ---
+
+export type ProductCatalog = Map<string, ProductRecord>;
+
+const PRODUCT_ATTRIBUTES: { key: keyof ProductAttributes; label: string }[] = [
+  { key: 'produto', label: 'Descrição' },
+  { key: 'categoria', label: 'Categoria' },
+  { key: 'subCategoria', label: 'Sub-Categoria' },
+  { key: 'modelo', label: 'Modelo' },
+  { key: 'colecao', label: 'Coleção' },
+];
+
+// Everything a record builder may need besides the rows and their mapping
+export interface BuildOptions {
+  source?: ImportSource; // tags each sales record with its file/sheet
+  sheetIsStore?: boolean; // sheet name stands in for the store when there is no store column
+  catalog?: ProductCatalog;
+  rules?: NormalizationRules;
+}
+
+export const catalogKey = (codigo: string) => normalizeStr(codigo);
+
+export const buildCatalog = (records: ProductRecord[]): ProductCatalog =>
+  new Map(records.map(r => [catalogKey(r.codigo), r]));
+
+// Product attributes of each cut code. Cut rows carry them only when a catalog was loaded;
+// otherwise each one is borrowed from the first sale of the same code.
+export const cutAttributes = (sales: CleanedSaleRecord[], corte: CorteRecord[]): Map<string, ProductAttributes> => {
+  const sold = new Map<string, CleanedSaleRecord>();
+  sales.forEach(item => { if (!sold.has(item.codigo)) sold.set(item.codigo, item); });
+
+  const attributes = new Map<string, ProductAttributes>();
+  corte.forEach(item => {
+    if (attributes.has(item.codigo)) return;
+    const sale = sold.get(item.codigo);
+    attributes.set(item.codigo, Object.fromEntries(
+      PRODUCT_ATTRIBUTES.map(({ key }) => [key, item[key] || sale?.[key] || ''])
+    ) as ProductAttributes);
+  });
+  return attributes;
+};
+
+export const buildCatalogRecords = (rows: any[][], mapping: CatalogColumnMapping, { rules }: BuildOptions = {}): ImportResult<ProductRecord> => {
+  const col = (field: CatalogField) => mapping.columns[field].index;
+  const dataRows = rows.slice(mapping.headerRowIndex + 1);
+  const records: ProductRecord[] = [];
+  const issues: ImportIssue[] = [];
+  const seen = new Set<string>();
+  let blankRows = 0;
+
+  dataRows.forEach((row, index) => {
+    if (isBlankRow(row)) {
+      blankRows++;
+      return;
+    }
+
+    const getVal = (idx: number) => (idx !== -1 && row[idx] !== undefined) ? row[idx] : null;
+    const text = (field: CatalogField, fallback: string) => String(getVal(col(field)) || fallback).trim();
+    const issue = (severity: ImportIssue['severity'], reason: ImportIssueReason, detail: string) =>
+      issues.push(rowIssue('catalogo', mapping, index, row, severity, reason, detail));
+
+    const codigo = text('codigo', '');
+    if (codigo === '') {
+      issue('rejected', 'missing_code', 'Código vazio');
+      return;
+    }
+    // First occurrence wins, so a product listed twice keeps its earliest attributes
+    if (seen.has(catalogKey(codigo))) {
+      issue('rejected', 'duplicate_code', `Código "${codigo}" já listado acima`);
+      return;
+    }
+    seen.add(catalogKey(codigo));
+
+    const rawPreco = getVal(col('precoLista'));
+    const rawCusto = getVal(col('custoUnitario'));
+    ([['Preço', rawPreco], ['Custo', rawCusto]] as const).forEach(([label, raw]) => {
+      if (isAmbiguousNumber(raw, mapping.numberLocale)) issue('suspicious', 'thousand_separator', `${label}: "${raw}" lido como ${cleanNumber(raw, mapping.numberLocale)}`);
+    });
+
+    records.push({
+      codigo,
+      produto: text('produto', 'Produto'),
+      categoria: normalizeValue(rules, 'categoria', text('categoria', 'Outros')),
+      subCategoria: text('subCategoria', 'Outros'),
+      modelo: text('modelo', 'N/A'),
+      colecao: text('colecao', 'N/A'),
+      precoLista: cleanNumber(rawPreco, mapping.numberLocale) || 0,
+      custoUnitario: cleanNumber(rawCusto, mapping.numberLocale) || 0,
+    });
+  });
+
+  return {
+    records,
+    report: {
+      file: 'catalogo',
+      totalRows: dataRows.length - blankRows,
+      acceptedRows: records.length,
+      blankRows,
+      issues,
+      unmappedFields: unmappedFields(mapping, CATALOG_FIELDS),
+    },
+  };
+};
+
+const productAttributes = (product: ProductRecord): ProductAttributes & Pick<ProductRecord, 'precoLista' | 'custoUnitario'> => ({
+  produto: product.produto,
+  categoria: product.categoria,
+  subCategoria: product.subCategoria,
+  modelo: product.modelo,
+  colecao: product.colecao,
+  precoLista: product.precoLista,
+  custoUnitario: product.custoUnitario,
+});
+
+// With a catalog, its attributes replace the ones in the sheet and mismatches are reported as suspicious.
+// Normalization rules run first, so "PRETO" in the sheet doesn't conflict with "Preto" in the catalog.
+export const buildSalesRecords = (
+  rows: any[][],
+  mapping: SalesColumnMapping,
+  { source = { fileName: '', sheetName: '' }, sheetIsStore = false, catalog, rules }: BuildOptions = {}
+): ImportResult<CleanedSaleRecord> => {
+  const col = (field: SalesField) => mapping.columns[field].index;
+  const idxLoja = col('loja');
+  const idxCat = col('categoria');
+  const idxSub = col('subCategoria');
+  const idxProd = col('produto');
+  const idxCodigo = col('codigo');
+  const idxCor = col('cor');
+  const idxTam = col('tamanho');
+  const idxColecao = col('colecao');
+  const idxModelo = col('modelo');
+  const idxEstoque = col('estoque');
+  const idxQtd = col('quantidade');
+  const idxVal = col('valorTotal');
+  const idxData = col('data');
+  const idxTipo = col('tipoMovimento');
+  const idxCusto = col('custoUnitario');
+  const defaultLoja = sheetIsStore && source.sheetName ? source.sheetName : 'Outros';
+  const idPrefix = source.fileName ? `${source.fileName}|${source.sheetName}|` : '';
+
+  const dataRows = rows.slice(mapping.headerRowIndex + 1);
+  const validData: CleanedSaleRecord[] = [];
+  const issues: ImportIssue[] = [];
+  let blankRows = 0;
+
+  dataRows.forEach((row, index) => {
+    if (isBlankRow(row)) {
+      blankRows++;
+      return;
+    }
+
+    const getVal = (idx: number) => (idx !== -1 && row[idx] !== undefined) ? row[idx] : null;
+    const issue = (severity: ImportIssue['severity'], reason: ImportIssueReason, detail: string) =>
+      issues.push(rowIssue('sales', mapping, index, row, severity, reason, detail));
+
+    const rawData = getVal(idxData);
+    const rawQtd = getVal(idxQtd);
+    const rawVal = getVal(idxVal);
+    const rawEstoque = getVal(idxEstoque); 
+    const rawCusto = getVal(idxCusto);
     
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary' });
-        const sheetName = workbook.SheetNames[0];
-        const sheet = workbook.Sheets[sheetName];
-        
-        const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1 });
-
-        if (rows.length === 0) {
-          resolve([]);
-          return;
-        }
+    let quantidade = cleanNumber(rawQtd, mapping.numberLocale) || 0; 
+    let valorTotal = cleanNumber(rawVal, mapping.numberLocale);
+    const tipoMovimento = classifyTransaction(getVal(idxTipo), quantidade, valorTotal);
+    if (tipoMovimento === 'devolucao') {
+      // Some exports list returns with positive amounts and rely on the movement column
+      quantidade = -Math.abs(quantidade);
+      valorTotal = -Math.abs(valorTotal);
+    }
+    const estoque = cleanNumber(rawEstoque, mapping.numberLocale) || 0;
+    const custoPlanilha = Math.abs(cleanNumber(rawCusto, mapping.numberLocale) || 0);
+    const formattedDate = formatDate(rawData, mapping.dateFormat);
+
+    if (formattedDate === '') {
+      const reason = dateRejectReason(rawData);
+      issue('rejected', reason, `Data: "${rawData ?? ''}"`);
+      return;
+    }
+    if (valorTotal === 0 && quantidade === 0) {
+      issue('rejected', 'zero_value', `Quantidade: ${quantidade} | Valor: ${valorTotal}`);
+      return;
+    }
 
-        let headerRowIndex = -1;
-        const keywords = ['produto', 'referência', 'codigo', 'cor', 'tamanho', 'qtd', 'cortada'];
-        
-        for (let i = 0; i < Math.min(rows.length, 10); i++) {
-            const rowStr = rows[i].map(c => normalizeStr(c)).join(' ');
-            let matches = 0;
-            keywords.forEach(k => { if (rowStr.includes(k)) matches++; });
-            if (matches >= 2) { 
-                headerRowIndex = i;
-                break;
-            }
+    ([['Quantidade', rawQtd, quantidade], ['Valor', rawVal, valorTotal], ['Estoque', rawEstoque, estoque], ['Custo', rawCusto, custoPlanilha]] as const)
+      .forEach(([label, raw, parsed]) => {
+        if (isAmbiguousNumber(raw, mapping.numberLocale)) issue('suspicious', 'thousand_separator', `${label}: "${raw}" lido como ${parsed}`);
+      });
+    if (idxTam !== -1 && !getVal(idxTam)) issue('suspicious', 'default_size', 'Tamanho vazio, assumido "U"');
+    if (idxCor !== -1 && !getVal(idxCor)) issue('suspicious', 'default_color', 'Cor vazia, assumida "N/A"');
+
+    const record: CleanedSaleRecord = {
+      id: `${idPrefix}row-${index}`,
+      loja: normalizeValue(rules, 'loja', idxLoja !== -1 ? String(getVal(idxLoja) || 'Outros').trim() : defaultLoja),
+      codigo: idxCodigo !== -1 ? String(getVal(idxCodigo) || '').trim() : '',
+      categoria: normalizeValue(rules, 'categoria', idxCat !== -1 ? String(getVal(idxCat) || 'Outros').trim() : 'Outros'),
+      subCategoria: idxSub !== -1 ? String(getVal(idxSub) || 'Outros').trim() : 'Outros',
+      produto: idxProd !== -1 ? String(getVal(idxProd) || 'Produto').trim() : 'Produto',
+      cor: normalizeValue(rules, 'cor', idxCor !== -1 ? String(getVal(idxCor) || 'N/A').trim() : 'N/A'),
+      tamanho: normalizeValue(rules, 'tamanho', idxTam !== -1 ? String(getVal(idxTam) || 'U').trim() : 'U'),
+      modelo: idxModelo !== -1 ? String(getVal(idxModelo) || 'N/A').trim() : 'N/A',
+      colecao: idxColecao !== -1 ? String(getVal(idxColecao) || 'N/A').trim() : 'N/A',
+      quantidade: quantidade,
+      valorTotal: valorTotal,
+      estoque: estoque,
+      data: formattedDate,
+      tipoMovimento,
+      origemArquivo: source.fileName,
+      origemAba: source.sheetName,
+    };
+
+    const product = catalog?.get(catalogKey(record.codigo));
+    if (product) {
+      PRODUCT_ATTRIBUTES.forEach(({ key, label }) => {
+        // Columns guessed by position are too unreliable to raise a conflict
+        const match = mapping.columns[key];
+        if (match.index === -1 || match.confidence === 'low' || !getVal(match.index)) return;
+        if (normalizeStr(record[key]) !== normalizeStr(product[key])) {
+          issue('suspicious', 'catalog_conflict', `${label}: "${record[key]}" na planilha, "${product[key]}" no catálogo`);
         }
+      });
+      Object.assign(record, productAttributes(product));
+    }
+    // The catalog cost wins; the sheet's cost column covers products the catalog has no cost for
+    if (!record.custoUnitario && custoPlanilha > 0) record.custoUnitario = custoPlanilha;
 
-        const headers = headerRowIndex !== -1 ? rows[headerRowIndex].map(h => normalizeStr(h)) : [];
-        const findSpecificIdx = (kws: string[]) => headers.findIndex(h => kws.some(k => h.includes(k)));
+    validData.push(record);
+  });
 
-        // CRITICAL FIX: Do NOT include 'produto' in the search for code/ref, 
-        // as it often matches the description column instead.
-        let idxCodigo = findSpecificIdx(['código', 'codigo', 'referência', 'referencia', 'ref']);
-        
-        let idxCor = findSpecificIdx(['cor']);
-        let idxTam = findSpecificIdx(['tamanho', 'tam']);
-        let idxQtd = findSpecificIdx(['qtd', 'quantidade', 'total', 'cortado', 'corte']);
+  validData.sort((a, b) => a.data.localeCompare(b.data));
 
-        // Fallbacks based on common positions if headers not found or ambiguous
-        if (idxCodigo === -1) idxCodigo = 0; // Assume Col A is Code/Ref
-        if (idxCor === -1) idxCor = 2; // Assume Col C is Color (A=Ref, B=Desc)
-        if (idxTam === -1) idxTam = 3; // Assume Col D is Size
-        if (idxQtd === -1) idxQtd = 4; // Assume Col E is Qty
+  return {
+    records: validData,
+    report: {
+      file: 'sales',
+      fileName: source.fileName ? sourceLabel(source) : undefined,
+      totalRows: dataRows.length - blankRows,
+      acceptedRows: validData.length,
+      blankRows,
+      issues,
+      unmappedFields: unmappedFields(mapping, SALES_FIELDS),
+    },
+  };
+};
 
-        const dataRows = headerRowIndex !== -1 ? rows.slice(headerRowIndex + 1) : rows;
+export const buildCorteRecords = (rows: any[][], mapping: CorteColumnMapping, { catalog, rules }: BuildOptions = {}): ImportResult<CorteRecord> => {
+  const idxCodigo = mapping.columns.codigo.index;
+  const idxCor = mapping.columns.cor.index;
+  const idxTam = mapping.columns.tamanho.index;
+  const idxQtd = mapping.columns.quantidade.index;
 
-        const cleanedData: CorteRecord[] = dataRows.map((row) => {
-          const getVal = (idx: number) => (idx !== -1 && row[idx] !== undefined) ? row[idx] : null;
+  const dataRows = rows.slice(mapping.headerRowIndex + 1);
+  const records: CorteRecord[] = [];
+  const issues: ImportIssue[] = [];
+  let blankRows = 0;
 
-          return {
-            codigo: idxCodigo !== -1 ? String(getVal(idxCodigo) || '').trim() : '',
-            cor: idxCor !== -1 ? String(getVal(idxCor) || 'N/A').trim() : 'N/A',
-            tamanho: idxTam !== -1 ? String(getVal(idxTam) || 'U').trim() : 'U',
-            quantidade: cleanNumber(getVal(idxQtd)) || 0
-          };
-        }).filter(r => r.codigo !== '' && r.quantidade > 0);
+  dataRows.forEach((row, index) => {
+    if (isBlankRow(row)) {
+      blankRows++;
+      return;
+    }
 
-        resolve(cleanedData);
+    const getVal = (idx: number) => (idx !== -1 && row[idx] !== undefined) ? row[idx] : null;
+    const issue = (severity: ImportIssue['severity'], reason: ImportIssueReason, detail: string) =>
+      issues.push(rowIssue('corte', mapping, index, row, severity, reason, detail));
 
-      } catch (error) {
-        reject(error);
-      }
+    const rawQtd = getVal(idxQtd);
+    const record: CorteRecord = {
+      codigo: idxCodigo !== -1 ? String(getVal(idxCodigo) || '').trim() : '',
+      cor: normalizeValue(rules, 'cor', idxCor !== -1 ? String(getVal(idxCor) || 'N/A').trim() : 'N/A'),
+      tamanho: normalizeValue(rules, 'tamanho', idxTam !== -1 ? String(getVal(idxTam) || 'U').trim() : 'U'),
+      quantidade: cleanNumber(rawQtd, mapping.numberLocale) || 0
     };
-    reader.onerror = (error) => reject(error);
-    reader.readAsBinaryString(file);
+
+    if (record.codigo === '') {
+      issue('rejected', 'missing_code', 'Código vazio');
+      return;
+    }
+    if (!(record.quantidade > 0)) {
+      issue('rejected', 'zero_value', `Quantidade: "${rawQtd ?? ''}"`);
+      return;
+    }
+
+    if (isAmbiguousNumber(rawQtd, mapping.numberLocale)) issue('suspicious', 'thousand_separator', `Quantidade: "${rawQtd}" lida como ${record.quantidade}`);
+    if (idxTam !== -1 && !getVal(idxTam)) issue('suspicious', 'default_size', 'Tamanho vazio, assumido "U"');
+    if (idxCor !== -1 && !getVal(idxCor)) issue('suspicious', 'default_color', 'Cor vazia, assumida "N/A"');
+
+    const product = catalog?.get(catalogKey(record.codigo));
+    if (product) {
+      const { produto, categoria, subCategoria, modelo, colecao } = product;
+      Object.assign(record, { produto, categoria, subCategoria, modelo, colecao });
+    }
+
+    records.push(record);
   });
+
+  return {
+    records,
+    report: {
+      file: 'corte',
+      totalRows: dataRows.length - blankRows,
+      acceptedRows: records.length,
+      blankRows,
+      issues,
+      unmappedFields: unmappedFields(mapping, CORTE_FIELDS),
+    },
+  };
 };
 
+// Store registry sheet; store names go through the same rules as the sales files so they match
+export const buildStoreRecords = (rows: any[][], mapping: StoreColumnMapping, { rules }: BuildOptions = {}): ImportResult<StoreRecord> => {
+  const col = (field: StoreField) => mapping.columns[field].index;
+  const dataRows = rows.slice(mapping.headerRowIndex + 1);
+  const records: StoreRecord[] = [];
+  const issues: ImportIssue[] = [];
+  let blankRows = 0;
+
+  dataRows.forEach((row, index) => {
+    if (isBlankRow(row)) {
+      blankRows++;
+      return;
+    }
+
+    const getVal = (idx: number) => (idx !== -1 && row[idx] !== undefined) ? row[idx] : null;
+    const issue = (severity: ImportIssue['severity'], reason: ImportIssueReason, detail: string) =>
+      issues.push(rowIssue('lojas', mapping, index, row, severity, reason, detail));
+
+    const loja = String(getVal(col('loja')) || '').trim();
+    if (loja === '') {
+      issue('rejected', 'missing_code', 'Loja vazia');
+      return;
+    }
+
+    const rawAbertura = getVal(col('dataAbertura'));
+    const dataAbertura = formatDate(rawAbertura, mapping.dateFormat);
+    if (rawAbertura && !dataAbertura) issue('suspicious', dateRejectReason(rawAbertura), `Data de abertura: "${rawAbertura}" ignorada`);
+
+    records.push({
+      loja: normalizeValue(rules, 'loja', loja),
+      regiao: String(getVal(col('regiao')) || '').trim(),
+      canal: parseChannel(getVal(col('canal'))),
+      porte: parseSize(getVal(col('porte'))),
+      dataAbertura,
+    });
+  });
+
+  return {
+    records,
+    report: {
+      file: 'lojas',
+      totalRows: dataRows.length - blankRows,
+      acceptedRows: records.length,
+      blankRows,
+      issues,
+      unmappedFields: unmappedFields(mapping, STORE_FIELDS),
+    },
+  };
+};
+
+export const parseExcelFile = async (file: File): Promise<CleanedSaleRecord[]> => {
+  const rows = await readSheetRows(file, true);
+  if (rows.length === 0) return [];
+  return buildSalesRecords(rows, detectSalesMapping(rows)).records;
+};
+
+export const parseCorteFile = async (file: File): Promise<CorteRecord[]> => {
+  const rows = await readSheetRows(file);
+  if (rows.length === 0) return [];
+  return buildCorteRecords(rows, detectCorteMapping(rows)).records;
+};
+
+// Same sale in two files/sheets (e.g. overlapping monthly exports). Identical rows inside one
+// source are legitimate, so per row key we keep as many copies as the largest single source has.
+export const mergeSalesRecords = (results: CleanedSaleRecord[][]): { records: CleanedSaleRecord[]; summary: MergeSummary } => {
+  const recordKey = (r: CleanedSaleRecord) => JSON.stringify([
+    r.data, r.loja, r.codigo, r.produto, r.categoria, r.subCategoria, r.cor, r.tamanho,
+    r.modelo, r.colecao, r.quantidade, r.valorTotal, r.estoque, r.tipoMovimento, r.custoUnitario
+  ]);
+  const sourceKey = (r: CleanedSaleRecord) => `${r.origemArquivo}|${r.origemAba}`;
+
+  const perKeyCounts = new Map<string, Map<string, number>>();
+  results.flat().forEach(r => {
+    const key = recordKey(r);
+    const bySource = perKeyCounts.get(key) || new Map<string, number>();
+    bySource.set(sourceKey(r), (bySource.get(sourceKey(r)) || 0) + 1);
+    perKeyCounts.set(key, bySource);
+  });
+
+  const kept = new Map<string, number>();
+  const records: CleanedSaleRecord[] = [];
+  const removedBySource = new Map<string, number>();
+
+  results.flat().forEach(r => {
+    const key = recordKey(r);
+    const allowed = Math.max(...Array.from(perKeyCounts.get(key)!.values()));
+    const used = kept.get(key) || 0;
+    if (used < allowed) {
+      kept.set(key, used + 1);
+      records.push(r);
+    } else {
+      removedBySource.set(sourceKey(r), (removedBySource.get(sourceKey(r)) || 0) + 1);
+    }
+  });
+
+  records.sort((a, b) => a.data.localeCompare(b.data));
+
+  return {
+    records,
+    summary: {
+      sources: results.filter(list => list.length > 0).map(list => ({
+        fileName: list[0].origemArquivo,
+        sheetName: list[0].origemAba,
+        rows: list.length,
+        duplicatesRemoved: removedBySource.get(sourceKey(list[0])) || 0,
+      })),
+      totalRows: results.reduce((acc, list) => acc + list.length, 0),
+      duplicatesRemoved: results.reduce((acc, list) => acc + list.length, 0) - records.length,
+    },
+  };
+};
+
+// --- Margin ---
+
+// Cost of the row's net quantity; 0 when the product has no unit cost
+export const recordCost = (item: CleanedSaleRecord): number => (item.custoUnitario || 0) * item.quantidade;
+
+// Gross margin of the row; rows without a unit cost contribute nothing rather than a 100% margin
+export const recordMargin = (item: CleanedSaleRecord): number =>
+  item.custoUnitario ? item.valorTotal - recordCost(item) : 0;
+
+// Returns are stored with negative amounts; exchanges keep their own sign
+const isReturnRow = (item: CleanedSaleRecord): boolean =>
+  item.tipoMovimento === 'devolucao' || item.valorTotal < 0 || (item.valorTotal === 0 && item.quantidade < 0);
+
+export const recordValue = (item: CleanedSaleRecord, valueKey: SalesValueKey): number =>
+  valueKey === 'margem' ? recordMargin(item) : item[valueKey];
+
+// Revenue and cost of the rows that have a unit cost, the base for margin % and markup
+interface CostedTotals {
+  revenue: number;
+  cost: number;
+}
+
+const addCosted = (totals: CostedTotals, item: CleanedSaleRecord) => {
+  if (!item.custoUnitario) return;
+  totals.revenue += item.valorTotal;
+  totals.cost += recordCost(item);
+};
+
+const marginStats = ({ revenue, cost }: CostedTotals) => ({
+  margin: revenue - cost,
+  marginRate: revenue !== 0 ? ((revenue - cost) / revenue) * 100 : 0,
+  markup: cost > 0 ? revenue / cost : 0,
+});
+
 export const aggregateBy = (
   data: CleanedSaleRecord[], 
   groupKey: keyof CleanedSaleRecord, 
-  valueKey: 'valorTotal' | 'quantidade' = 'valorTotal'
+  valueKey: SalesValueKey = 'valorTotal'
 ): AggregatedData[] => {
   const map = new Map<string, number>();
   const countMap = new Map<string, number>();
   const estoqueMap = new Map<string, number>();
+  const grossMap = new Map<string, number>();
+  const returnsMap = new Map<string, number>();
+  const costedMap = new Map<string, CostedTotals>();
 
   data.forEach(item => {
     const group = String(item[groupKey]);
@@ -304,31 +862,121 @@ export const aggregateBy = (
     const currentCount = countMap.get(group) || 0;
     const currentEstoque = estoqueMap.get(group) || 0;
     
-    const addValue = item[valueKey] as number;
+    const addValue = recordValue(item, valueKey);
     map.set(group, currentVal + addValue);
     countMap.set(group, currentCount + item.quantidade);
     estoqueMap.set(group, currentEstoque + item.estoque);
+    if (!costedMap.has(group)) costedMap.set(group, { revenue: 0, cost: 0 });
+    addCosted(costedMap.get(group)!, item);
+
+    // The movement decides the bucket, not the value: a sale below cost has a negative margin but is no return
+    if (isReturnRow(item)) {
+      returnsMap.set(group, (returnsMap.get(group) || 0) - addValue);
+    } else {
+      grossMap.set(group, (grossMap.get(group) || 0) + addValue);
+    }
   });
 
   return Array.from(map.entries())
-    .map(([name, value]) => ({ 
-      name, 
-      value,
-      count: countMap.get(name),
-      estoque: estoqueMap.get(name)
-    }))
+    .map(([name, value]) => {
+      const gross = grossMap.get(name) || 0;
+      const returns = returnsMap.get(name) || 0;
+      return { 
+        name, 
+        value,
+        count: countMap.get(name),
+        estoque: estoqueMap.get(name),
+        gross,
+        returns,
+        returnRate: gross > 0 ? (returns / gross) * 100 : 0,
+        ...marginStats(costedMap.get(name)!)
+      };
+    })
     .sort((a, b) => b.value - a.value); 
 };
 
+// --- Time series ---
+
+// Buckets start on the 1st of the month or on Monday
+export const bucketStart = (date: string, granularity: TimeGranularity): string => {
+  if (granularity === 'day') return date;
+  if (granularity === 'month') return `${date.substring(0, 7)}-01`;
+  const [y, m, d] = date.split('-').map(Number);
+  const weekday = (new Date(Date.UTC(y, m - 1, d)).getUTCDay() + 6) % 7;
+  return addDays(date, -weekday);
+};
+
+export const bucketEnd = (start: string, granularity: TimeGranularity): string => {
+  if (granularity === 'day') return start;
+  if (granularity === 'week') return addDays(start, 6);
+  const [y, m] = start.split('-').map(Number);
+  return `${start.substring(0, 8)}${String(new Date(Date.UTC(y, m, 0)).getUTCDate()).padStart(2, '0')}`;
+};
+
+export const bucketLabel = (start: string, granularity: TimeGranularity): string => {
+  const [y, m, d] = start.split('-');
+  return granularity === 'month' ? `${Object.keys(ptMonths)[Number(m) - 1]}/${y.substring(2)}` : `${d}/${m}`;
+};
+
+export const MOVING_AVERAGE_WINDOW: Record<TimeGranularity, number> = { day: 7, week: 4, month: 3 };
+
+// Every bucket of the range is present (zero when there were no sales) so lines stay continuous.
+// `previousData` is last year's sales for the same filters; it is moved forward a year to line up with the current buckets.
+export const buildTimeSeries = (
+  data: CleanedSaleRecord[],
+  range: DateRange,
+  granularity: TimeGranularity,
+  valueKey: SalesValueKey = 'valorTotal',
+  previousData?: CleanedSaleRecord[]
+): TimeSeriesPoint[] => {
+  if (!range.start || !range.end) return [];
+
+  const points = new Map<string, TimeSeriesPoint>();
+  for (let start = bucketStart(range.start, granularity); start <= range.end; start = addDays(bucketEnd(start, granularity), 1)) {
+    points.set(start, {
+      bucket: start,
+      end: bucketEnd(start, granularity),
+      label: bucketLabel(start, granularity),
+      value: 0,
+      previous: previousData ? 0 : undefined,
+    });
+  }
+
+  data.forEach(item => {
+    const point = points.get(bucketStart(item.data, granularity));
+    if (point) point.value += recordValue(item, valueKey);
+  });
+  previousData?.forEach(item => {
+    const point = points.get(bucketStart(addYears(item.data, 1), granularity));
+    if (point) point.previous! += recordValue(item, valueKey);
+  });
+
+  const series = Array.from(points.values());
+  const window = MOVING_AVERAGE_WINDOW[granularity];
+  series.forEach((point, i) => {
+    const slice = series.slice(Math.max(0, i - window + 1), i + 1);
+    point.movingAverage = slice.reduce((acc, p) => acc + p.value, 0) / slice.length;
+  });
+  return series;
+};
+
+// Adds the comparison period's value to each group of the current breakdown
+export const addComparison = (current: AggregatedData[], previous: AggregatedData[]): AggregatedData[] => {
+  const previousByName = new Map(previous.map(p => [p.name, p.value]));
+  return current.map(item => ({ ...item, comparison: previousByName.get(item.name) || 0 }));
+};
+
+// Key of a SKU: Code + Color + Size (Normalized)
+export const skuKey = (code: string, color: string, size: string) =>
+  `${normalizeStr(code)}|${normalizeStr(color)}|${normalizeStr(size)}`;
+
 export const prepareDataTable = (data: CleanedSaleRecord[], corteData: CorteRecord[] = []): DetailedTableRow[] => {
-  // Key: Code + Color + Size (Normalized)
   const map = new Map<string, DetailedTableRow>();
-  const genKey = (code: string, color: string, size: string) => 
-    `${normalizeStr(code)}|${normalizeStr(color)}|${normalizeStr(size)}`;
+  const costed = new Map<string, CostedTotals>();
 
   // 1. Process Sales Data
   data.forEach(item => {
-    const key = genKey(item.codigo, item.cor, item.tamanho);
+    const key = skuKey(item.codigo, item.cor, item.tamanho);
     
     if (!map.has(key)) {
       map.set(key, {
@@ -339,19 +987,29 @@ export const prepareDataTable = (data: CleanedSaleRecord[], corteData: CorteReco
         tamanho: item.tamanho,
         qtdCortada: 0, 
         qtdVendida: 0,
+        qtdDevolvida: 0,
         faturado: 0,
-        percentualVendido: 0
+        valorDevolvido: 0,
+        taxaDevolucao: 0,
+        percentualVendido: 0,
+        margemBruta: 0,
+        margemPercentual: 0,
+        markup: 0
       });
+      costed.set(key, { revenue: 0, cost: 0 });
     }
 
     const entry = map.get(key)!;
     entry.qtdVendida += item.quantidade;
     entry.faturado += item.valorTotal;
+    addCosted(costed.get(key)!, item);
+    if (item.quantidade < 0) entry.qtdDevolvida -= item.quantidade;
+    if (item.valorTotal < 0) entry.valorDevolvido -= item.valorTotal;
   });
 
   // 2. Process Corte Data (Merge)
   corteData.forEach(item => {
-    const key = genKey(item.codigo, item.cor, item.tamanho);
+    const key = skuKey(item.codigo, item.cor, item.tamanho);
     
     if (map.has(key)) {
       const entry = map.get(key)!;
@@ -361,13 +1019,19 @@ export const prepareDataTable = (data: CleanedSaleRecord[], corteData: CorteReco
       map.set(key, {
         id: key,
         codigo: item.codigo,
-        produto: 'Sem Venda', // Fallback
+        produto: item.produto || 'Sem Venda', // Catalog description when available
         cor: item.cor,
         tamanho: item.tamanho,
         qtdCortada: item.quantidade,
         qtdVendida: 0,
+        qtdDevolvida: 0,
         faturado: 0,
-        percentualVendido: 0
+        valorDevolvido: 0,
+        taxaDevolucao: 0,
+        percentualVendido: 0,
+        margemBruta: 0,
+        margemPercentual: 0,
+        markup: 0
       });
     }
   });
@@ -377,15 +1041,66 @@ export const prepareDataTable = (data: CleanedSaleRecord[], corteData: CorteReco
     // If QtdCortada is 0, we can't calculate a valid percentage based on production, 
     // but we can default to 100% or N/A logic in display.
     const pct = entry.qtdCortada > 0 ? (entry.qtdVendida / entry.qtdCortada) * 100 : 0;
-    return { ...entry, percentualVendido: pct };
+    const grossQty = entry.qtdVendida + entry.qtdDevolvida;
+    const returnPct = grossQty > 0 ? (entry.qtdDevolvida / grossQty) * 100 : 0;
+    const margin = costed.has(entry.id) ? marginStats(costed.get(entry.id)!) : null;
+    return {
+      ...entry,
+      percentualVendido: pct,
+      taxaDevolucao: returnPct,
+      margemBruta: margin?.margin || 0,
+      margemPercentual: margin?.marginRate || 0,
+      markup: margin?.markup || 0,
+    };
   }).sort((a, b) => a.codigo.localeCompare(b.codigo));
 };
 
-export const sortSizes = (data: AggregatedData[]): AggregatedData[] => {
-  const sizeOrder = [
-    'RN', 'PP', 'P', 'M', 'G', 'GG', 'XG', 'XGG', 'XXG', 'U', 'UN', 'ÚNICO',
-    '34', '36', '38', '40', '42', '44', '46', '48', '50', '52', '54'
-  ];
+const gridCell = (qtdCortada: number, qtdVendida: number): SizeGridCell => ({
+  qtdCortada,
+  qtdVendida,
+  percentualVendido: qtdCortada > 0 ? (qtdVendida / qtdCortada) * 100 : 0,
+});
+
+const sumCells = (cells: (SizeGridCell | null)[]): SizeGridCell => gridCell(
+  cells.reduce((acc, c) => acc + (c?.qtdCortada || 0), 0),
+  cells.reduce((acc, c) => acc + (c?.qtdVendida || 0), 0)
+);
+
+// Regroups the code|color|size rows of `prepareDataTable` into one reference's color x size grid
+export const buildSizeGrid = (rows: DetailedTableRow[], codigo: string, sizeOrder: string[] = DEFAULT_SIZE_ORDER): SizeGrid => {
+  const productRows = rows.filter(r => normalizeStr(r.codigo) === normalizeStr(codigo));
+  const sizes = sortSizes(
+    Array.from(new Set(productRows.map(r => r.tamanho))).map(name => ({ name, value: 0 })),
+    sizeOrder
+  ).map(s => s.name);
+  const colors = Array.from(new Set(productRows.map(r => r.cor))).sort((a, b) => a.localeCompare(b));
+
+  const gridRows = colors.map(cor => {
+    const cells = sizes.map(tamanho => {
+      const matches = productRows.filter(r => r.cor === cor && r.tamanho === tamanho);
+      if (matches.length === 0) return null;
+      return gridCell(
+        matches.reduce((acc, r) => acc + r.qtdCortada, 0),
+        matches.reduce((acc, r) => acc + r.qtdVendida, 0)
+      );
+    });
+    return { cor, cells, total: sumCells(cells) };
+  });
+  const sizeTotals = sizes.map((_, i) => sumCells(gridRows.map(r => r.cells[i])));
+
+  return {
+    codigo,
+    produto: productRows.find(r => r.produto !== 'Sem Venda')?.produto || productRows[0]?.produto || '',
+    sizes,
+    rows: gridRows,
+    sizeTotals,
+    total: sumCells(sizeTotals),
+  };
+};
+
+// `order` comes from the editable normalization rules
+export const sortSizes = (data: AggregatedData[], order: string[] = DEFAULT_SIZE_ORDER): AggregatedData[] => {
+  const sizeOrder = order.map(s => s.toUpperCase());
 
   return [...data].sort((a, b) => {
     const nameA = a.name.toUpperCase();
@@ -407,10 +1122,18 @@ export const sortSizes = (data: AggregatedData[]): AggregatedData[] => {
 };
 
 export const calculateMetrics = (data: CleanedSaleRecord[], corteData: CorteRecord[] = []): DashboardMetrics => {
+  // Returns are stored with negative amounts, so plain sums are already net
   const totalRevenue = data.reduce((acc, curr) => acc + curr.valorTotal, 0);
   const totalItems = data.reduce((acc, curr) => acc + curr.quantidade, 0);
+  const returnsRevenue = data.reduce((acc, curr) => acc + (curr.valorTotal < 0 ? -curr.valorTotal : 0), 0);
+  const returnedItems = data.reduce((acc, curr) => acc + (curr.quantidade < 0 ? -curr.quantidade : 0), 0);
+  const grossRevenue = totalRevenue + returnsRevenue;
+  const saleRows = data.filter(d => d.tipoMovimento !== 'devolucao').length;
   const totalStock = data.reduce((acc, curr) => acc + curr.estoque, 0);
   const totalCut = corteData.reduce((acc, curr) => acc + curr.quantidade, 0);
+  const costed: CostedTotals = { revenue: 0, cost: 0 };
+  data.forEach(item => addCosted(costed, item));
+  const { margin, marginRate, markup } = marginStats(costed);
   
   // Sell-Through Rate = Sold / (Sold + Stock) 
   // OR based on Cut if available. But typically standard Sell-Through is based on stock on hand + sold.
@@ -435,12 +1158,20 @@ export const calculateMetrics = (data: CleanedSaleRecord[], corteData: CorteReco
 
   return {
     totalRevenue,
+    grossRevenue,
+    returnsRevenue,
+    returnRate: grossRevenue > 0 ? (returnsRevenue / grossRevenue) * 100 : 0,
     totalItems,
-    averageTicket: data.length > 0 ? totalRevenue / data.length : 0,
+    returnedItems,
+    averageTicket: saleRows > 0 ? totalRevenue / saleRows : 0,
     topStore,
     totalStock,
     totalCut,
-    sellThroughRate
+    sellThroughRate,
+    grossMargin: margin,
+    marginRate,
+    markup,
+    costCoverage: totalRevenue !== 0 ? (costed.revenue / totalRevenue) * 100 : 0
   };
 };
 
@@ -0,0 +1,91 @@
+import { CleanedSaleRecord, CorteRecord, StoredDataset } from '../types';
+
+const DB_NAME = 'munny';
+const DB_VERSION = 1;
+const META_STORE = 'datasets';
+const RECORDS_STORE = 'datasetRecords';
+const ACTIVE_KEY = 'munny.activeDataset';
+
+interface DatasetRecords {
+  id: string;
+  sales: CleanedSaleRecord[];
+  cuts: CorteRecord[];
+}
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(RECORDS_STORE)) db.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs `work` in one transaction over both stores and resolves with its request's result once it commits
+const transact = async <T>(
+  mode: IDBTransactionMode,
+  work: (meta: IDBObjectStore, records: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([META_STORE, RECORDS_STORE], mode);
+    const request = work(tx.objectStore(META_STORE), tx.objectStore(RECORDS_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    tx.onerror = tx.onabort = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+};
+
+// Most recent import first
+export const listDatasets = async (): Promise<StoredDataset[]> => {
+  const datasets = await transact<StoredDataset[]>('readonly', meta => meta.getAll());
+  return (datasets || []).sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+};
+
+export const saveDataset = async (files: string[], sales: CleanedSaleRecord[], cuts: CorteRecord[]): Promise<StoredDataset> => {
+  const dataset: StoredDataset = {
+    id: `dataset-${Date.now()}`,
+    files,
+    importedAt: new Date().toISOString(),
+    salesCount: sales.length,
+    cutsCount: cuts.length,
+  };
+  await transact('readwrite', (meta, records) => {
+    meta.put(dataset);
+    records.put({ id: dataset.id, sales, cuts } as DatasetRecords);
+  });
+  return dataset;
+};
+
+export const loadDataset = async (id: string): Promise<DatasetRecords | null> =>
+  (await transact<DatasetRecords>('readonly', (_meta, records) => records.get(id))) || null;
+
+export const deleteDataset = async (id: string): Promise<void> => {
+  await transact('readwrite', (meta, records) => {
+    meta.delete(id);
+    records.delete(id);
+  });
+  if (loadActiveDatasetId() === id) saveActiveDatasetId(null);
+};
+
+// Dataset on screen, reopened after a page reload; cleared when leaving the dashboard
+export const loadActiveDatasetId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch (error) {
+    console.error(error);
+    return null;
+  }
+};
+
+export const saveActiveDatasetId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_KEY, id);
+  else localStorage.removeItem(ACTIVE_KEY);
+};
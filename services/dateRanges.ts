@@ -0,0 +1,141 @@
+import { ComparisonMode, DatePreset, DateRange } from '../types';
+
+export const DATE_PRESETS: { key: DatePreset; label: string }[] = [
+  { key: 'all', label: 'Todo o período' },
+  { key: 'thisWeek', label: 'Esta semana' },
+  { key: 'last7', label: 'Últimos 7 dias' },
+  { key: 'last30', label: 'Últimos 30 dias' },
+  { key: 'last90', label: 'Últimos 90 dias' },
+  { key: 'monthToDate', label: 'Mês até a data' },
+  { key: 'quarter', label: 'Trimestre atual' },
+  { key: 'yearToDate', label: 'Ano até a data' },
+  { key: 'samePeriodLastYear', label: 'Mesmo período do ano anterior' },
+];
+
+// Dates are handled in UTC so that adding days never trips over daylight-saving changes
+const toDate = (iso: string) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+const toIso = (date: Date) => date.toISOString().split('T')[0];
+
+export const addDays = (iso: string, days: number): string => {
+  const date = toDate(iso);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIso(date);
+};
+
+// Keeps the day of month where possible (29/02 falls back to 28/02)
+export const addYears = (iso: string, years: number): string => {
+  const [y, m, d] = iso.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(y + years, m, 0)).getUTCDate();
+  return toIso(new Date(Date.UTC(y + years, m - 1, Math.min(d, lastDay))));
+};
+
+export const daysBetween = (start: string, end: string): number =>
+  Math.round((toDate(end).getTime() - toDate(start).getTime()) / 86400000);
+
+export const COMPARISON_MODES: { key: ComparisonMode; label: string }[] = [
+  { key: 'none', label: 'Sem comparação' },
+  { key: 'previousPeriod', label: 'Período anterior' },
+  { key: 'previousYear', label: 'Mesmo período do ano anterior' },
+  { key: 'custom', label: 'Personalizado' },
+];
+
+// Range the current one is compared against; previousPeriod has the same number of days and ends the day before
+export const comparisonRange = (mode: ComparisonMode, range: DateRange, custom: DateRange): DateRange | null => {
+  if (!range.start || !range.end) return null;
+  switch (mode) {
+    case 'none':
+      return null;
+    case 'previousPeriod': {
+      const end = addDays(range.start, -1);
+      return { start: addDays(end, -daysBetween(range.start, range.end)), end };
+    }
+    case 'previousYear':
+      return { start: addYears(range.start, -1), end: addYears(range.end, -1) };
+    case 'custom':
+      return custom.start && custom.end && custom.start <= custom.end ? custom : null;
+  }
+};
+
+export const formatDateBR = (iso: string) => iso.split('-').reverse().join('/');
+
+// First and last dates of the records
+export const dateBoundsOf = (records: { data: string }[]): DateRange => {
+  if (records.length === 0) return { start: '', end: '' };
+  const sortedDates = records.map(d => d.data).sort();
+  return { start: sortedDates[0] || '', end: sortedDates[sortedDates.length - 1] || '' };
+};
+
+// Distinct dates that have sales, in order
+export const saleDatesOf = (records: { data: string }[]): string[] =>
+  Array.from(new Set(records.map(d => d.data))).sort();
+
+// Keeps the range inside the bounds; with `dates` (see saleDatesOf) each end also moves inward to the
+// nearest date that has sales. Null for a reversed range or one with no sales in it.
+export const clampRange = (range: DateRange, bounds: DateRange, dates?: string[]): DateRange | null => {
+  if (range.start > range.end) return null;
+  let start = range.start < bounds.start ? bounds.start : range.start;
+  let end = range.end > bounds.end ? bounds.end : range.end;
+  if (dates) {
+    start = dates.find(d => d >= start) ?? '';
+    end = [...dates].reverse().find(d => d <= end) ?? '';
+  }
+  return start && end && start <= end ? { start, end } : null;
+};
+
+// Presets are anchored on the last date with sales, not on today, so old exports still get useful ranges.
+// Returns null when the preset falls entirely outside the data.
+export const presetRange = (preset: DatePreset, bounds: DateRange, current: DateRange): DateRange | null => {
+  const anchor = bounds.end;
+  const [year, month] = anchor.split('-').map(Number);
+
+  let range: DateRange;
+  switch (preset) {
+    case 'all':
+      return bounds;
+    case 'thisWeek': {
+      const weekday = (toDate(anchor).getUTCDay() + 6) % 7; // Monday = 0
+      range = { start: addDays(anchor, -weekday), end: anchor };
+      break;
+    }
+    case 'last7':
+      range = { start: addDays(anchor, -6), end: anchor };
+      break;
+    case 'last30':
+      range = { start: addDays(anchor, -29), end: anchor };
+      break;
+    case 'last90':
+      range = { start: addDays(anchor, -89), end: anchor };
+      break;
+    case 'monthToDate':
+      range = { start: `${year}-${String(month).padStart(2, '0')}-01`, end: anchor };
+      break;
+    case 'quarter': {
+      const firstMonth = Math.floor((month - 1) / 3) * 3 + 1;
+      range = { start: `${year}-${String(firstMonth).padStart(2, '0')}-01`, end: anchor };
+      break;
+    }
+    case 'yearToDate':
+      range = { start: `${year}-01-01`, end: anchor };
+      break;
+    case 'samePeriodLastYear':
+      range = { start: addYears(current.start, -1), end: addYears(current.end, -1) };
+      break;
+  }
+  return clampRange(range, bounds);
+};
+
+// Preset that gives exactly this range over the current data, so a saved view can keep it relative.
+// The previous-year preset depends on the range it starts from, so it never matches.
+export const matchingPreset = (range: DateRange, bounds: DateRange): DatePreset | undefined => {
+  if (!range.start || !range.end || !bounds.end) return undefined;
+  return DATE_PRESETS
+    .filter(p => p.key !== 'samePeriodLastYear')
+    .find(p => {
+      const presetValue = presetRange(p.key, bounds, range);
+      return presetValue !== null && presetValue.start === range.start && presetValue.end === range.end;
+    })?.key;
+};
@@ -0,0 +1,73 @@
+import { CleanedSaleRecord, CorteRecord, DimensionFilter, DimensionFilters, FilterField, ProductAttributes } from '../types';
+
+export const FILTER_FIELDS: { key: FilterField; label: string }[] = [
+  { key: 'loja', label: 'Loja' },
+  { key: 'regiao', label: 'Região' },
+  { key: 'canal', label: 'Canal' },
+  { key: 'porte', label: 'Porte' },
+  { key: 'categoria', label: 'Categoria' },
+  { key: 'subCategoria', label: 'Sub-Categoria' },
+  { key: 'colecao', label: 'Coleção' },
+  { key: 'modelo', label: 'Modelo' },
+  { key: 'codigo', label: 'Produto' },
+  { key: 'cor', label: 'Cor' },
+  { key: 'tamanho', label: 'Tamanho' },
+];
+
+const PRODUCT_FIELDS = ['categoria', 'subCategoria', 'colecao', 'modelo'] as const;
+type ProductField = typeof PRODUCT_FIELDS[number];
+
+const isProductField = (field: FilterField): field is ProductField =>
+  (PRODUCT_FIELDS as readonly string[]).includes(field);
+
+export const isFilterField = (key: string): key is FilterField => FILTER_FIELDS.some(f => f.key === key);
+
+// Replaces one field's filter; an empty selection removes it
+export const setDimensionFilter = (filters: DimensionFilters, field: FilterField, filter?: DimensionFilter): DimensionFilters => {
+  const { [field]: _removed, ...rest } = filters;
+  return filter && filter.values.length > 0 ? { ...rest, [field]: filter } : rest;
+};
+
+// Chart click: a plain click keeps only the clicked value (or clears it if it was the only one);
+// Ctrl/Cmd-click adds or removes it. Clicking always includes, so it replaces an exclusion.
+export const toggleFilterValue = (filters: DimensionFilters, field: FilterField, value: string, multi: boolean): DimensionFilters => {
+  const current = filters[field]?.mode === 'include' ? filters[field]!.values : [];
+  let next: string[];
+  if (multi) {
+    next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+  } else {
+    next = current.length === 1 && current[0] === value ? [] : [value];
+  }
+  return setDimensionFilter(filters, field, { values: next, mode: 'include' });
+};
+
+export const removeFilterValue = (filters: DimensionFilters, field: FilterField, value: string): DimensionFilters => {
+  const current = filters[field];
+  if (!current) return filters;
+  return setDimensionFilter(filters, field, { ...current, values: current.values.filter(v => v !== value) });
+};
+
+export const hasDimensionFilters = (filters: DimensionFilters): boolean =>
+  Object.values(filters).some(filter => filter && filter.values.length > 0);
+
+const activeFields = (filters: DimensionFilters) =>
+  (Object.keys(filters) as FilterField[]).filter(field => (filters[field]?.values || []).length > 0);
+
+const passes = (filter: DimensionFilter, value: string) => filter.values.includes(value) === (filter.mode === 'include');
+
+export const matchesDimensionFilters = (item: CleanedSaleRecord, filters: DimensionFilters): boolean =>
+  activeFields(filters).every(field => passes(filters[field]!, item[field] || ''));
+
+// Cut rows have no store, so store fields leave the cut untouched (null).
+// `attributes` are the code's product attributes (see cutAttributes).
+const cutValue = (item: CorteRecord, field: FilterField, attributes?: ProductAttributes): string | null => {
+  if (field === 'codigo' || field === 'cor' || field === 'tamanho') return item[field];
+  if (isProductField(field)) return (attributes || item)[field] || '';
+  return null;
+};
+
+export const cutMatchesDimensionFilters = (item: CorteRecord, filters: DimensionFilters, attributes?: ProductAttributes): boolean =>
+  activeFields(filters).every(field => {
+    const value = cutValue(item, field, attributes);
+    return value === null || passes(filters[field]!, value);
+  });
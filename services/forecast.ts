@@ -0,0 +1,190 @@
+import { CleanedSaleRecord, ForecastMethod, ForecastPoint, ForecastResult, TimeGranularity } from '../types';
+import { buildTimeSeries, bucketEnd, bucketLabel } from './dataProcessing';
+import { addDays } from './dateRanges';
+
+type FittedMethod = Exclude<ForecastMethod, 'auto'>;
+
+export const FORECAST_METHODS: { key: ForecastMethod; label: string }[] = [
+  { key: 'auto', label: 'Automático (menor erro)' },
+  { key: 'seasonalNaive', label: 'Sazonal ingênuo' },
+  { key: 'ses', label: 'Suavização exponencial' },
+  { key: 'holt', label: 'Holt (tendência amortecida)' },
+  { key: 'holtWinters', label: 'Holt-Winters' },
+];
+
+export const SEASON_LENGTH: Record<Exclude<TimeGranularity, 'day'>, number> = { week: 52, month: 12 };
+
+const DAMPING = 0.9;
+const Z_95 = 1.96;
+const GRID = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const TREND_GRID = [0.05, 0.1, 0.2, 0.3];
+
+// oneStep[t] is the prediction for values[t] made with data up to t-1 (null while the model warms up)
+interface Model {
+  oneStep: (number | null)[];
+  forecast: (horizon: number) => number[];
+}
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+const seasonalNaive = (values: number[], season: number): Model => ({
+  oneStep: values.map((_, t) => t >= season ? values[t - season] : null),
+  forecast: horizon => Array.from({ length: horizon }, (_, i) => values[values.length - season + (i % season)]),
+});
+
+const simpleSmoothing = (values: number[], alpha: number): Model => {
+  let level = values[0];
+  const oneStep: (number | null)[] = [null];
+  for (let t = 1; t < values.length; t++) {
+    oneStep.push(level);
+    level = alpha * values[t] + (1 - alpha) * level;
+  }
+  return { oneStep, forecast: horizon => Array(horizon).fill(level) };
+};
+
+// Damped so that a few strong weeks don't project an endless ramp
+const holt = (values: number[], alpha: number, beta: number): Model => {
+  let level = values[0];
+  let trend = values[1] - values[0];
+  const oneStep: (number | null)[] = [null];
+  for (let t = 1; t < values.length; t++) {
+    oneStep.push(level + DAMPING * trend);
+    const nextLevel = alpha * values[t] + (1 - alpha) * (level + DAMPING * trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * DAMPING * trend;
+    level = nextLevel;
+  }
+  return {
+    oneStep,
+    forecast: horizon => {
+      let damped = 0;
+      return Array.from({ length: horizon }, (_, i) => {
+        damped += Math.pow(DAMPING, i + 1);
+        return level + damped * trend;
+      });
+    },
+  };
+};
+
+// Additive seasonality, initialised from the first two seasons
+const holtWinters = (values: number[], season: number, alpha: number, beta: number, gamma: number): Model => {
+  const first = mean(values.slice(0, season));
+  let level = first;
+  let trend = (mean(values.slice(season, 2 * season)) - first) / season;
+  const seasonal = values.slice(0, season).map(v => v - first);
+  const oneStep: (number | null)[] = values.slice(0, season).map(() => null);
+  for (let t = season; t < values.length; t++) {
+    const s = seasonal[t % season];
+    oneStep.push(level + trend + s);
+    const nextLevel = alpha * (values[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    seasonal[t % season] = gamma * (values[t] - nextLevel) + (1 - gamma) * s;
+    level = nextLevel;
+  }
+  return {
+    oneStep,
+    forecast: horizon => Array.from({ length: horizon }, (_, i) =>
+      level + (i + 1) * trend + seasonal[(values.length + i) % season]),
+  };
+};
+
+const oneStepErrors = (values: number[], model: Model): number[] =>
+  model.oneStep.flatMap((pred, t) => pred === null ? [] : [values[t] - pred]);
+
+const mse = (values: number[], model: Model): number => {
+  const errors = oneStepErrors(values, model);
+  return errors.length > 0 ? mean(errors.map(e => e * e)) : Infinity;
+};
+
+// Smoothing parameters are picked by grid search on the one-step-ahead error
+const best = (values: number[], candidates: Model[]): Model =>
+  candidates.reduce((acc, m) => mse(values, m) < mse(values, acc) ? m : acc);
+
+const fit = (values: number[], method: FittedMethod, season: number): Model | null => {
+  switch (method) {
+    case 'seasonalNaive':
+      return values.length > season ? seasonalNaive(values, season) : null;
+    case 'ses':
+      return values.length >= 2 ? best(values, GRID.map(a => simpleSmoothing(values, a))) : null;
+    case 'holt':
+      return values.length >= 3 ? best(values, GRID.flatMap(a => TREND_GRID.map(b => holt(values, a, b)))) : null;
+    case 'holtWinters':
+      return values.length >= 2 * season + 2
+        ? best(values, GRID.flatMap(a => TREND_GRID.flatMap(b => [0.1, 0.3].map(g => holtWinters(values, season, a, b, g)))))
+        : null;
+  }
+};
+
+// Fits on everything but the last `periods` and scores the forecast of those periods
+const backtest = (values: number[], method: FittedMethod, season: number, periods: number) => {
+  if (periods < 1) return null;
+  const train = values.slice(0, values.length - periods);
+  const actual = values.slice(values.length - periods);
+  const model = fit(train, method, season);
+  if (!model) return null;
+  const predicted = model.forecast(periods).map(v => Math.max(v, 0));
+  const absErrors = actual.map((a, i) => Math.abs(a - predicted[i]));
+  const totalActual = actual.reduce((acc, a) => acc + Math.abs(a), 0);
+  return {
+    periods,
+    wape: totalActual > 0 ? (absErrors.reduce((acc, e) => acc + e, 0) / totalActual) * 100 : 0,
+    mae: mean(absErrors),
+  };
+};
+
+export const forecastSales = (
+  data: CleanedSaleRecord[],
+  valueKey: 'valorTotal' | 'quantidade',
+  granularity: Exclude<TimeGranularity, 'day'>,
+  horizon: number,
+  method: ForecastMethod
+): ForecastResult => {
+  const empty: ForecastResult = { method: null, points: [], backtest: null, projectedTotal: 0 };
+  if (data.length === 0) return empty;
+
+  const dates = data.map(d => d.data).sort();
+  const lastDate = dates[dates.length - 1];
+  // A bucket still in progress would read as a sudden drop, so it stays out of the fit
+  const series = buildTimeSeries(data, { start: dates[0], end: lastDate }, granularity, valueKey)
+    .filter(p => p.end <= lastDate);
+  const values = series.map(p => p.value);
+  const season = SEASON_LENGTH[granularity];
+  const holdout = Math.min(horizon, Math.floor(values.length / 4));
+
+  const candidates: FittedMethod[] = method === 'auto' ? ['seasonalNaive', 'ses', 'holt', 'holtWinters'] : [method];
+  const scored = candidates
+    .map(m => ({ method: m, model: fit(values, m, season), backtest: backtest(values, m, season, holdout) }))
+    .filter(c => c.model !== null);
+  if (scored.length === 0) return { ...empty, points: series.map(p => ({ bucket: p.bucket, label: p.label, actual: p.value })) };
+
+  const chosen = scored.reduce((acc, c) => (c.backtest?.wape ?? Infinity) < (acc.backtest?.wape ?? Infinity) ? c : acc);
+  const model = chosen.model!;
+  const sigma = Math.sqrt(mean(oneStepErrors(values, model).map(e => e * e)) || 0);
+  const predictions = model.forecast(horizon);
+
+  const points: ForecastPoint[] = series.map(p => ({ bucket: p.bucket, label: p.label, actual: p.value }));
+  // The forecast line starts at the last actual value so both lines connect
+  const last = points[points.length - 1];
+  if (last) {
+    last.forecast = last.actual;
+    last.band = [last.actual!, last.actual!];
+  }
+  let bucket = series.length > 0 ? series[series.length - 1].bucket : dates[0];
+  predictions.forEach((value, i) => {
+    bucket = addDays(bucketEnd(bucket, granularity), 1);
+    const width = Z_95 * sigma * Math.sqrt(i + 1);
+    const forecast = Math.max(value, 0);
+    points.push({
+      bucket,
+      label: bucketLabel(bucket, granularity),
+      forecast,
+      band: [Math.max(forecast - width, 0), forecast + width],
+    });
+  });
+
+  return {
+    method: chosen.method,
+    points,
+    backtest: chosen.backtest,
+    projectedTotal: predictions.reduce((acc, v) => acc + Math.max(v, 0), 0),
+  };
+};
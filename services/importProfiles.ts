@@ -0,0 +1,86 @@
+import { ColumnMapping, FieldDefinition, ImportFileKind, ImportProfile } from '../types';
+import { headerSignature } from './dataProcessing';
+import { downloadJson, readJsonList } from './jsonFiles';
+import { isListOf, loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'munny.importProfiles';
+
+export const loadProfiles = (): ImportProfile[] => loadJson(STORAGE_KEY, [], isListOf(isProfile));
+
+export const saveProfiles = (profiles: ImportProfile[]) => saveJson(STORAGE_KEY, profiles);
+
+// Creates a profile from the mapping currently on screen
+export const createProfile = <F extends string>(
+  name: string,
+  kind: ImportFileKind,
+  rows: any[][],
+  mapping: ColumnMapping<F>
+): ImportProfile => {
+  const columns: Record<string, number> = {};
+  (Object.keys(mapping.columns) as F[]).forEach(field => {
+    const idx = mapping.columns[field].index;
+    if (idx !== -1) columns[field] = idx;
+  });
+
+  return {
+    id: `profile-${Date.now()}`,
+    name: name.trim(),
+    kind,
+    headerRowIndex: mapping.headerRowIndex,
+    headers: headerSignature(rows, mapping.headerRowIndex),
+    columns,
+    numberLocale: mapping.numberLocale,
+    dateFormat: mapping.dateFormat,
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+// Adds the profile, replacing any profile of the same kind and name
+export const upsertProfile = (profiles: ImportProfile[], profile: ImportProfile): ImportProfile[] => {
+  const sameName = (p: ImportProfile) => p.kind === profile.kind && p.name.toLowerCase() === profile.name.toLowerCase();
+  const existing = profiles.find(sameName);
+  const next = existing ? { ...profile, id: existing.id } : profile;
+  return [...profiles.filter(p => !sameName(p)), next].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const findMatchingProfile = (profiles: ImportProfile[], kind: ImportFileKind, rows: any[][]): ImportProfile | null => {
+  return profiles.find(p => {
+    if (p.kind !== kind || p.headers.length === 0) return false;
+    const headers = headerSignature(rows, p.headerRowIndex);
+    return headers.length === p.headers.length && headers.every((h, i) => h === p.headers[i]);
+  }) || null;
+};
+
+export const applyProfile = <F extends string>(profile: ImportProfile, fields: FieldDefinition<F>[]): ColumnMapping<F> => {
+  const columns = {} as ColumnMapping<F>['columns'];
+  fields.forEach(f => {
+    const idx = profile.columns[f.key];
+    columns[f.key] = idx !== undefined ? { index: idx, confidence: 'high' } : { index: -1, confidence: 'none' };
+  });
+
+  return {
+    headerRowIndex: profile.headerRowIndex,
+    columns,
+    numberLocale: profile.numberLocale,
+    dateFormat: profile.dateFormat,
+  };
+};
+
+export const exportProfiles = (profiles: ImportProfile[]) => downloadJson('munny-perfis-importacao.json', profiles);
+
+const isProfile = (val: any): val is ImportProfile =>
+  val && typeof val.name === 'string' && ['sales', 'corte', 'catalogo'].includes(val.kind) &&
+  typeof val.headerRowIndex === 'number' && Array.isArray(val.headers) &&
+  val.columns && typeof val.columns === 'object';
+
+// Reads a shared JSON file and merges it into the existing profiles
+export const importProfiles = async (file: File, profiles: ImportProfile[]): Promise<ImportProfile[]> => {
+  const list = await readJsonList(file, isProfile, 'Arquivo de perfis inválido.');
+  return list.reduce<ImportProfile[]>((acc, p, i) => upsertProfile(acc, {
+    ...p,
+    id: p.id || `profile-${Date.now()}-${i}`,
+    numberLocale: p.numberLocale || 'auto',
+    dateFormat: p.dateFormat || 'auto',
+    updatedAt: p.updatedAt || new Date().toISOString(),
+  }), profiles);
+};
@@ -0,0 +1,63 @@
+import * as XLSX from 'xlsx';
+import { ImportIssue, ImportIssueReason, ImportReport } from '../types';
+
+export const ISSUE_REASON_LABELS: Record<ImportIssueReason, string> = {
+  invalid_date: 'Data inválida ou vazia',
+  date_before_2000: 'Ano anterior a 2000',
+  zero_value: 'Quantidade e valor zerados',
+  missing_code: 'Código ausente',
+  thousand_separator: 'Possível erro de separador de milhar',
+  default_size: 'Tamanho ausente (assumido "U")',
+  default_color: 'Cor ausente (assumida "N/A")',
+  duplicate_code: 'Código repetido no catálogo',
+  catalog_conflict: 'Divergente do catálogo (catálogo prevalece)',
+};
+
+export const FILE_LABELS: Record<ImportReport['file'], string> = {
+  sales: 'Vendas',
+  corte: 'Corte',
+  catalogo: 'Catálogo',
+  lojas: 'Cadastro de Lojas',
+};
+
+export const countIssues = (report: ImportReport, severity: ImportIssue['severity']) =>
+  report.issues.filter(i => i.severity === severity).length;
+
+// A row can be flagged more than once, so count distinct rows
+export const countSuspiciousRows = (report: ImportReport) =>
+  new Set(report.issues.filter(i => i.severity === 'suspicious').map(i => i.rowNumber)).size;
+
+export const issuesByReason = (report: ImportReport): { reason: ImportIssueReason; severity: ImportIssue['severity']; count: number }[] => {
+  const map = new Map<ImportIssueReason, { severity: ImportIssue['severity']; count: number }>();
+  report.issues.forEach(i => {
+    const current = map.get(i.reason) || { severity: i.severity, count: 0 };
+    map.set(i.reason, { ...current, count: current.count + 1 });
+  });
+  return Array.from(map.entries())
+    .map(([reason, v]) => ({ reason, ...v }))
+    .sort((a, b) => b.count - a.count);
+};
+
+export const downloadImportReport = (reports: ImportReport[]) => {
+  const workbook = XLSX.utils.book_new();
+
+  const summary = [
+    ['Arquivo', 'Nome', 'Linhas lidas', 'Importadas', 'Rejeitadas', 'Suspeitas', 'Linhas em branco', 'Campos sem coluna'],
+    ...reports.map(r => [
+      FILE_LABELS[r.file], r.fileName || '', r.totalRows, r.acceptedRows,
+      countIssues(r, 'rejected'), countSuspiciousRows(r), r.blankRows, r.unmappedFields.join(', ')
+    ]),
+  ];
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summary), 'Resumo');
+
+  const issueRows = (severity: ImportIssue['severity']) => [
+    ['Arquivo', 'Origem', 'Linha', 'Motivo', 'Detalhe', 'Dados originais'],
+    ...reports.flatMap(r => r.issues
+      .filter(i => i.severity === severity)
+      .map(i => [FILE_LABELS[i.file], r.fileName || '', i.rowNumber, ISSUE_REASON_LABELS[i.reason], i.detail, ...i.values])),
+  ];
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(issueRows('rejected')), 'Rejeitadas');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(issueRows('suspicious')), 'Suspeitas');
+
+  XLSX.writeFile(workbook, 'munny-relatorio-importacao.xlsx');
+};
@@ -0,0 +1,22 @@
+// Sharing settings (import profiles, saved views) between browsers as JSON files
+
+export const downloadJson = (fileName: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// A single object or a list; throws `errorMessage` when any entry fails the guard
+export const readJsonList = async <T>(file: File, isValid: (val: any) => val is T, errorMessage: string): Promise<T[]> => {
+  const parsed = JSON.parse(await file.text());
+  const list: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+
+  if (!list.every(isValid)) {
+    throw new Error(errorMessage);
+  }
+  return list as T[];
+};
@@ -0,0 +1,104 @@
+import { CleanedSaleRecord, CorteRecord, NormalizationField, NormalizationRules, NormalizationSuggestion } from '../types';
+import { isListOf, isRecordOf, isString, loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'munny.normalizationRules';
+
+export const NORMALIZATION_FIELDS: { key: NormalizationField; label: string }[] = [
+  { key: 'cor', label: 'Cor' },
+  { key: 'tamanho', label: 'Tamanho' },
+  { key: 'loja', label: 'Loja' },
+  { key: 'categoria', label: 'Categoria' },
+];
+
+export const DEFAULT_SIZE_ORDER = [
+  'RN', 'PP', 'P', 'M', 'G', 'GG', 'XG', 'XGG', 'XXG', 'U', 'UN', 'ÚNICO',
+  '34', '36', '38', '40', '42', '44', '46', '48', '50', '52', '54'
+];
+
+export const DEFAULT_RULES: NormalizationRules = {
+  aliases: {
+    cor: {},
+    tamanho: { 'único': 'U', 'unico': 'U', 'un': 'U', 'u': 'U' },
+    loja: {},
+    categoria: {},
+  },
+  sizeOrder: DEFAULT_SIZE_ORDER,
+};
+
+// Case and spacing never matter for a match ("Preto " == "PRETO")
+export const aliasKey = (val: string): string => String(val || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Looser key for fuzzy matches (suggestions, free-text codes): no accents, no punctuation
+export const foldKey = (val: string): string =>
+  aliasKey(val).normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/g, '');
+
+// Fields missing from older saved rules fall back to the defaults
+const isStoredRules = (val: any): val is Partial<NormalizationRules> =>
+  !!val && typeof val === 'object' && isRecordOf(isRecordOf(isString))(val.aliases ?? {}) && (val.sizeOrder === undefined || isListOf(isString)(val.sizeOrder));
+
+export const loadRules = (): NormalizationRules => {
+  const stored = loadJson<Partial<NormalizationRules>>(STORAGE_KEY, {}, isStoredRules);
+  return {
+    aliases: { ...DEFAULT_RULES.aliases, ...stored.aliases },
+    sizeOrder: stored.sizeOrder || DEFAULT_SIZE_ORDER,
+  };
+};
+
+export const saveRules = (rules: NormalizationRules) => saveJson(STORAGE_KEY, rules);
+
+export const normalizeValue = (rules: NormalizationRules | undefined, field: NormalizationField, val: string): string => {
+  if (!rules) return val;
+  return rules.aliases[field][aliasKey(val)] ?? val;
+};
+
+export const setAlias = (rules: NormalizationRules, field: NormalizationField, raw: string, canonical: string): NormalizationRules => ({
+  ...rules,
+  aliases: { ...rules.aliases, [field]: { ...rules.aliases[field], [aliasKey(raw)]: canonical.trim() } },
+});
+
+export const removeAlias = (rules: NormalizationRules, field: NormalizationField, key: string): NormalizationRules => {
+  const { [key]: _removed, ...rest } = rules.aliases[field];
+  return { ...rules, aliases: { ...rules.aliases, [field]: rest } };
+};
+
+// Defaults filled in by the parser for empty cells, not worth a rule
+const PLACEHOLDERS = ['N/A', 'Outros'];
+
+// Values worth a rule: spellings that fold to the same key as a known canonical or as a more
+// frequent spelling in the data (suggested as that one), and sizes missing from the size order.
+// A value that is already the only spelling of its key is left alone.
+export const findNewValues = (sales: CleanedSaleRecord[], corte: CorteRecord[], rules: NormalizationRules): NormalizationSuggestion[] => {
+  const suggestions: NormalizationSuggestion[] = [];
+
+  NORMALIZATION_FIELDS.forEach(({ key: field }) => {
+    const aliases = rules.aliases[field];
+    const canonicals = new Map<string, string>();
+    Object.values(aliases).forEach(c => canonicals.set(foldKey(c), c));
+    // Sizes listed in the size order are already known
+    const knownSizes = new Set(rules.sizeOrder.map(foldKey));
+    if (field === 'tamanho') rules.sizeOrder.forEach(c => canonicals.set(foldKey(c), c));
+
+    const counts = new Map<string, number>();
+    const values = field === 'cor' || field === 'tamanho'
+      ? [...sales.map(r => r[field]), ...corte.map(r => r[field])]
+      : sales.map(r => r[field]);
+    values.forEach(v => {
+      if (!v || PLACEHOLDERS.includes(v) || aliases[aliasKey(v)] !== undefined) return;
+      counts.set(v, (counts.get(v) || 0) + 1);
+    });
+
+    const mostFrequent = new Map<string, string>();
+    Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([v]) => { if (!mostFrequent.has(foldKey(v))) mostFrequent.set(foldKey(v), v); });
+
+    counts.forEach((count, value) => {
+      const key = foldKey(value);
+      const suggested = canonicals.get(key) ?? mostFrequent.get(key) ?? value;
+      if (suggested !== value) suggestions.push({ field, value, count, suggested, reason: 'variant' });
+      else if (field === 'tamanho' && !knownSizes.has(key)) suggestions.push({ field, value, count, suggested, reason: 'newSize' });
+    });
+  });
+
+  return suggestions.sort((a, b) => a.field.localeCompare(b.field) || b.count - a.count);
+};
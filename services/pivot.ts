@@ -0,0 +1,181 @@
+import { CleanedSaleRecord, CorteRecord, PivotConfig, PivotDimension, PivotMeasure, PivotRow, PivotTable, ProductAttributes } from '../types';
+import { bucketLabel, bucketStart, cutAttributes, recordMargin, sortSizes } from './dataProcessing';
+import { DEFAULT_SIZE_ORDER } from './normalizationRules';
+
+export const PIVOT_DIMENSIONS: { key: PivotDimension; label: string; productLevel: boolean }[] = [
+  { key: 'loja', label: 'Loja', productLevel: false },
+  { key: 'regiao', label: 'Região', productLevel: false },
+  { key: 'canal', label: 'Canal', productLevel: false },
+  { key: 'porte', label: 'Porte', productLevel: false },
+  { key: 'categoria', label: 'Categoria', productLevel: true },
+  { key: 'subCategoria', label: 'Sub-Categoria', productLevel: true },
+  { key: 'colecao', label: 'Coleção', productLevel: true },
+  { key: 'modelo', label: 'Modelo', productLevel: true },
+  { key: 'codigo', label: 'Código', productLevel: true },
+  { key: 'produto', label: 'Produto', productLevel: true },
+  { key: 'cor', label: 'Cor', productLevel: true },
+  { key: 'tamanho', label: 'Tamanho', productLevel: true },
+  { key: 'tipoMovimento', label: 'Tipo de Movimento', productLevel: false },
+  { key: 'mes', label: 'Mês', productLevel: false },
+  { key: 'semana', label: 'Semana', productLevel: false },
+];
+
+// Cut has no store or date, so measures that use it can only be split by product-level dimensions
+export const PIVOT_MEASURES: { key: PivotMeasure; label: string; usesCut: boolean }[] = [
+  { key: 'faturamento', label: 'Faturamento (R$)', usesCut: false },
+  { key: 'quantidade', label: 'Quantidade vendida', usesCut: false },
+  { key: 'margem', label: 'Margem (R$)', usesCut: false },
+  { key: 'estoque', label: 'Estoque', usesCut: false },
+  { key: 'corte', label: 'Quantidade cortada', usesCut: true },
+  { key: 'giro', label: '% Giro (Venda/Corte)', usesCut: true },
+];
+
+export const measureUsesCut = (measure: PivotMeasure): boolean =>
+  PIVOT_MEASURES.find(m => m.key === measure)?.usesCut ?? false;
+
+export const isProductDimension = (dim: PivotDimension): boolean =>
+  PIVOT_DIMENSIONS.find(d => d.key === dim)?.productLevel ?? false;
+
+// Months and weeks are kept as sortable dates and only formatted for display
+export const pivotLabel = (dim: PivotDimension, value: string): string => {
+  if (dim === 'mes') return bucketLabel(`${value}-01`, 'month');
+  if (dim === 'semana') return bucketLabel(value, 'week');
+  return value;
+};
+
+interface PivotSums {
+  valorTotal: number;
+  quantidade: number;
+  margem: number;
+  estoque: number;
+  corte: number;
+}
+
+const emptySums = (): PivotSums => ({ valorTotal: 0, quantidade: 0, margem: 0, estoque: 0, corte: 0 });
+
+const sumAll = (list: PivotSums[]): PivotSums => list.reduce((acc, s) => ({
+  valorTotal: acc.valorTotal + s.valorTotal,
+  quantidade: acc.quantidade + s.quantidade,
+  margem: acc.margem + s.margem,
+  estoque: acc.estoque + s.estoque,
+  corte: acc.corte + s.corte,
+}), emptySums());
+
+// Ratios are taken from the summed parts so subtotals never average percentages
+const measureValue = (sums: PivotSums, measure: PivotMeasure): number => {
+  switch (measure) {
+    case 'faturamento': return sums.valorTotal;
+    case 'quantidade': return sums.quantidade;
+    case 'margem': return sums.margem;
+    case 'estoque': return sums.estoque;
+    case 'corte': return sums.corte;
+    case 'giro': return sums.corte > 0 ? (sums.quantidade / sums.corte) * 100 : 0;
+  }
+};
+
+const saleValue = (item: CleanedSaleRecord, dim: PivotDimension): string => {
+  if (dim === 'mes') return item.data.substring(0, 7);
+  if (dim === 'semana') return bucketStart(item.data, 'week');
+  return String(item[dim] || 'N/A');
+};
+
+const PRODUCT_FIELDS = ['produto', 'categoria', 'subCategoria', 'modelo', 'colecao'] as const;
+
+// Product dimensions come from the code's attributes (see cutAttributes)
+const cutValue = (item: CorteRecord, dim: PivotDimension, attributes: Map<string, ProductAttributes>): string => {
+  if (dim === 'codigo' || dim === 'cor' || dim === 'tamanho') return item[dim] || 'N/A';
+  const field = PRODUCT_FIELDS.find(f => f === dim);
+  if (!field) return 'N/A';
+  return attributes.get(item.codigo)?.[field] || 'N/A';
+};
+
+// Value order for labels: configured size order for sizes, natural order for everything else
+const valueOrder = (dim: PivotDimension, values: string[], sizeOrder: string[]): string[] => {
+  const unique = Array.from(new Set(values));
+  if (dim === 'tamanho') return sortSizes(unique.map(name => ({ name, value: 0 })), sizeOrder).map(s => s.name);
+  return unique.sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+};
+
+export const buildPivot = (
+  sales: CleanedSaleRecord[],
+  corte: CorteRecord[],
+  config: PivotConfig,
+  sizeOrder: string[] = DEFAULT_SIZE_ORDER
+): PivotTable => {
+  const { rows: rowDims, column, measure, sortBy, sortDirection } = config;
+  const leaves = new Map<string, { labels: string[]; byColumn: Map<string, PivotSums> }>();
+  const columnValues: string[] = [];
+
+  const add = (labels: string[], col: string, apply: (sums: PivotSums) => void) => {
+    const key = JSON.stringify(labels);
+    if (!leaves.has(key)) leaves.set(key, { labels, byColumn: new Map() });
+    const byColumn = leaves.get(key)!.byColumn;
+    if (!byColumn.has(col)) {
+      byColumn.set(col, emptySums());
+      columnValues.push(col);
+    }
+    apply(byColumn.get(col)!);
+  };
+
+  sales.forEach(item => add(rowDims.map(d => saleValue(item, d)), column ? saleValue(item, column) : '', sums => {
+    sums.valorTotal += item.valorTotal;
+    sums.quantidade += item.quantidade;
+    sums.margem += recordMargin(item);
+    sums.estoque += item.estoque;
+  }));
+
+  if (measureUsesCut(measure)) {
+    const attributes = cutAttributes(sales, corte);
+    corte.forEach(item => add(rowDims.map(d => cutValue(item, d, attributes)), column ? cutValue(item, column, attributes) : '', sums => {
+      sums.corte += item.quantidade;
+    }));
+  }
+
+  const columns = column ? valueOrder(column, columnValues, sizeOrder) : [];
+  const leafList = Array.from(leaves.values());
+
+  const toRow = (labels: string[], maps: Map<string, PivotSums>[], subtotal: boolean): PivotRow => ({
+    labels,
+    cells: columns.map(c => {
+      const present = maps.map(m => m.get(c)).filter((s): s is PivotSums => s !== undefined);
+      return present.length > 0 ? measureValue(sumAll(present), measure) : null;
+    }),
+    total: measureValue(sumAll(maps.flatMap(m => Array.from(m.values()))), measure),
+    subtotal,
+  });
+
+  const labelRank = rowDims.map((dim, level) => {
+    const ordered = valueOrder(dim, leafList.map(l => l.labels[level]), sizeOrder);
+    return new Map(ordered.map((v, i) => [v, i]));
+  });
+  const sortRows = (list: PivotRow[], level: number) => {
+    const sign = sortDirection === 'asc' ? 1 : -1;
+    return list.sort((a, b) => sign * (sortBy === 'total'
+      ? a.total - b.total
+      : labelRank[level].get(a.labels[level])! - labelRank[level].get(b.labels[level])!));
+  };
+
+  let rows: PivotRow[];
+  if (rowDims.length < 2) {
+    rows = sortRows(leafList.map(l => toRow(l.labels, [l.byColumn], false)), 0);
+  } else {
+    const groups = new Map<string, typeof leafList>();
+    leafList.forEach(l => {
+      if (!groups.has(l.labels[0])) groups.set(l.labels[0], []);
+      groups.get(l.labels[0])!.push(l);
+    });
+    const subtotals = sortRows(
+      Array.from(groups.entries()).map(([outer, list]) => toRow([outer], list.map(l => l.byColumn), true)),
+      0
+    );
+    // Each group's detail rows are followed by its subtotal
+    rows = subtotals.flatMap(subtotal => [
+      ...sortRows(groups.get(subtotal.labels[0])!.map(l => toRow(l.labels, [l.byColumn], false)), 1),
+      subtotal,
+    ]);
+  }
+
+  const allMaps = leafList.map(l => l.byColumn);
+  const grand = toRow([], allMaps, true);
+  return { columns, rows, columnTotals: grand.cells.map(c => c ?? 0), grandTotal: grand.total };
+};
@@ -0,0 +1,44 @@
+import * as XLSX from 'xlsx';
+import { DetailedTableRow, RecutParams, RecutSuggestion } from '../types';
+
+export const DEFAULT_RECUT_PARAMS: RecutParams = { targetDays: 60, minBatch: 10, minSellThrough: 60 };
+
+// Suggests cutting enough to cover `targetDays` of recent sales beyond the remaining stock.
+// SKUs that sold poorly against their last cut are left out even if they are running low.
+export const recommendRecuts = (
+  rows: DetailedTableRow[],
+  dailySales: Map<string, number>,
+  { targetDays, minBatch, minSellThrough }: RecutParams
+): RecutSuggestion[] => rows
+  .map(row => {
+    const vendaDiaria = dailySales.get(row.id) || 0;
+    const estoqueAtual = Math.max(row.estoqueAtual || 0, 0);
+    const need = Math.ceil(vendaDiaria * targetDays - estoqueAtual);
+    return {
+      id: row.id,
+      codigo: row.codigo,
+      produto: row.produto,
+      cor: row.cor,
+      tamanho: row.tamanho,
+      qtdCortada: row.qtdCortada,
+      qtdVendida: row.qtdVendida,
+      percentualVendido: row.percentualVendido,
+      estoqueAtual,
+      vendaDiaria,
+      sugerido: need > 0 ? Math.max(need, minBatch) : 0,
+    };
+  })
+  // Without a recorded cut there is no sell-through to judge, so only velocity decides
+  .filter(s => s.sugerido > 0 && (s.qtdCortada === 0 || s.percentualVendido >= minSellThrough))
+  .sort((a, b) => a.codigo.localeCompare(b.codigo) || a.cor.localeCompare(b.cor));
+
+// Same columns the corte upload detects (Código, Descrição, Cor, Tamanho, Quantidade), so the file can be re-imported
+export const exportProductionOrder = (suggestions: RecutSuggestion[]) => {
+  const rows = [
+    ['Código', 'Descrição', 'Cor', 'Tamanho', 'Qtd Cortada'],
+    ...suggestions.filter(s => s.sugerido > 0).map(s => [s.codigo, s.produto, s.cor, s.tamanho, s.sugerido]),
+  ];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Ordem de Corte');
+  XLSX.writeFile(workbook, `munny-ordem-de-corte-${new Date().toISOString().split('T')[0]}.xlsx`);
+};
@@ -0,0 +1,73 @@
+import { DashboardView, DateRange, SavedView } from '../types';
+import { matchingPreset, presetRange } from './dateRanges';
+import { downloadJson, readJsonList } from './jsonFiles';
+import { isListOf, loadJson, saveJson } from './storage';
+import { DEFAULT_VIEW } from './viewState';
+
+const STORAGE_KEY = 'munny.savedViews';
+
+export const loadSavedViews = (): SavedView[] => loadJson(STORAGE_KEY, [], isListOf(isSavedView));
+
+export const saveSavedViews = (views: SavedView[]) => saveJson(STORAGE_KEY, views);
+
+export const createSavedView = (name: string, view: DashboardView, bounds: DateRange): SavedView => ({
+  id: `view-${Date.now()}`,
+  name: name.trim(),
+  view,
+  datePreset: matchingPreset(view.dateRange, bounds),
+  isDefault: false,
+  updatedAt: new Date().toISOString(),
+});
+
+const byName = (a: SavedView, b: SavedView) => a.name.localeCompare(b.name);
+
+// Names are unique regardless of case
+const sameName = (name: string) => (v: SavedView) => v.name.toLowerCase() === name.trim().toLowerCase();
+
+export const isNameTaken = (views: SavedView[], name: string, exceptId?: string): boolean =>
+  views.some(v => v.id !== exceptId && sameName(name)(v));
+
+// Adds the view, replacing any view of the same name (and keeping its default flag)
+export const upsertSavedView = (views: SavedView[], saved: SavedView): SavedView[] => {
+  const existing = views.find(sameName(saved.name));
+  const next = existing ? { ...saved, id: existing.id, isDefault: existing.isDefault } : saved;
+  return [...views.filter(v => !sameName(saved.name)(v)), next].sort(byName);
+};
+
+// A name already used by another view is refused and the views come back unchanged
+export const renameSavedView = (views: SavedView[], id: string, name: string): SavedView[] => {
+  if (isNameTaken(views, name, id)) return views;
+  return views.map(v => v.id === id ? { ...v, name: name.trim(), updatedAt: new Date().toISOString() } : v).sort(byName);
+};
+
+export const deleteSavedView = (views: SavedView[], id: string): SavedView[] => views.filter(v => v.id !== id);
+
+// Only one view is the default; null clears it
+export const setDefaultView = (views: SavedView[], id: string | null): SavedView[] =>
+  views.map(v => ({ ...v, isDefault: v.id === id }));
+
+export const defaultSavedView = (views: SavedView[]): SavedView | null => views.find(v => v.isDefault) || null;
+
+// The view as it applies to the data loaded now: relative ranges are recomputed from the last sale date
+export const resolveSavedView = (saved: SavedView, bounds: DateRange): DashboardView => {
+  const view = { ...DEFAULT_VIEW, ...saved.view };
+  if (!saved.datePreset || !bounds.end) return view;
+  return { ...view, dateRange: presetRange(saved.datePreset, bounds, view.dateRange) || view.dateRange };
+};
+
+export const exportSavedViews = (views: SavedView[]) => downloadJson('munny-visoes.json', views);
+
+const isSavedView = (val: any): val is SavedView =>
+  val && typeof val.name === 'string' && val.name.trim() !== '' &&
+  val.view && typeof val.view === 'object' && val.view.dateRange && typeof val.view.filters === 'object';
+
+// Reads a shared JSON file and merges it into the existing views; the local default stays as it is
+export const importSavedViews = async (file: File, views: SavedView[]): Promise<SavedView[]> => {
+  const list = await readJsonList(file, isSavedView, 'Arquivo de visões inválido.');
+  return list.reduce<SavedView[]>((acc, v, i) => upsertSavedView(acc, {
+    ...v,
+    id: v.id || `view-${Date.now()}-${i}`,
+    isDefault: false,
+    updatedAt: v.updatedAt || new Date().toISOString(),
+  }), views);
+};
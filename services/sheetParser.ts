@@ -0,0 +1,86 @@
+import * as XLSX from 'xlsx';
+import { ReadProgress, SheetData } from '../types';
+
+// Rows converted per step, so progress can be reported on very large sheets
+const CHUNK_ROWS = 5000;
+
+const isCsv = (fileName: string) => /\.(csv|txt)$/i.test(fileName);
+
+// ERP exports are often Latin-1; a strict UTF-8 decode fails on those bytes
+const decodeText = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+// Brazilian exports use ';' because ',' is the decimal separator
+const detectDelimiter = (text: string): string => {
+  const firstLines = text.split(/\r?\n/).slice(0, 5).join('\n');
+  const candidates = [';', ',', '\t'];
+  const counts = candidates.map(c => firstLines.split(c).length - 1);
+  return candidates[counts.indexOf(Math.max(...counts))];
+};
+
+const sheetRows = (
+  sheet: XLSX.WorkSheet,
+  onRows: (rowsRead: number, totalRows: number) => void
+): any[][] => {
+  if (!sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const totalRows = range.e.r - range.s.r + 1;
+  const rows: any[][] = [];
+
+  for (let start = range.s.r; start <= range.e.r; start += CHUNK_ROWS) {
+    const chunk = XLSX.utils.sheet_to_json<any[]>(sheet, {
+      header: 1,
+      blankrows: true,
+      range: { s: { r: start, c: range.s.c }, e: { r: Math.min(start + CHUNK_ROWS - 1, range.e.r), c: range.e.c } },
+    });
+    rows.push(...chunk);
+    onRows(Math.min(start + CHUNK_ROWS, range.e.r + 1) - range.s.r, totalRows);
+  }
+
+  return rows;
+};
+
+export const parseWorkbookBuffer = (
+  buffer: ArrayBuffer,
+  fileName: string,
+  cellDates: boolean,
+  onProgress: (progress: ReadProgress) => void = () => {}
+): SheetData[] => {
+  onProgress({ fileName, stage: 'parsing', rowsRead: 0, totalRows: 0, percent: 10 });
+
+  // CSV values stay as text so the dd/mm and 1.234,56 rules of the importer apply to them
+  const workbook = isCsv(fileName)
+    ? (() => {
+        const text = decodeText(buffer);
+        return XLSX.read(text, { type: 'string', FS: detectDelimiter(text), raw: true });
+      })()
+    : XLSX.read(buffer, { type: 'array', cellDates });
+
+  const totalRows = workbook.SheetNames.reduce((acc, name) => {
+    const ref = workbook.Sheets[name]['!ref'];
+    if (!ref) return acc;
+    const range = XLSX.utils.decode_range(ref);
+    return acc + range.e.r - range.s.r + 1;
+  }, 0);
+
+  let rowsBefore = 0;
+  return workbook.SheetNames.map(sheetName => {
+    const rows = sheetRows(workbook.Sheets[sheetName], (rowsRead) => {
+      const done = rowsBefore + rowsRead;
+      onProgress({
+        fileName,
+        stage: 'rows',
+        rowsRead: done,
+        totalRows,
+        percent: totalRows > 0 ? 30 + Math.round((done / totalRows) * 70) : 100,
+      });
+    });
+    rowsBefore += rows.length;
+    return { fileName, sheetName, rows };
+  });
+};
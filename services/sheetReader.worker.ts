@@ -0,0 +1,18 @@
+import { parseWorkbookBuffer } from './sheetParser';
+import { SheetReaderRequest, SheetReaderResponse } from '../types';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (e: MessageEvent<SheetReaderRequest>) => {
+  const { file, cellDates } = e.data;
+  const post = (message: SheetReaderResponse) => ctx.postMessage(message);
+
+  try {
+    post({ type: 'progress', progress: { fileName: file.name, stage: 'reading', rowsRead: 0, totalRows: 0, percent: 0 } });
+    const buffer = await file.arrayBuffer();
+    const sheets = parseWorkbookBuffer(buffer, file.name, cellDates, (progress) => post({ type: 'progress', progress }));
+    post({ type: 'done', sheets });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
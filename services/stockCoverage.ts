@@ -0,0 +1,69 @@
+import { CleanedSaleRecord, CoverageLevel, StockCoverage } from '../types';
+import { skuKey } from './dataProcessing';
+import { addDays } from './dateRanges';
+
+export const VELOCITY_WINDOWS = [2, 4, 8]; // weeks
+
+export const COVERAGE_LEVELS: { key: CoverageLevel; label: string }[] = [
+  { key: 'sku', label: 'SKU' },
+  { key: 'loja', label: 'Loja' },
+  { key: 'categoria', label: 'Categoria' },
+];
+
+const groupOf = (item: CleanedSaleRecord, level: CoverageLevel): { id: string; name: string } => {
+  if (level === 'loja') return { id: item.loja, name: item.loja };
+  if (level === 'categoria') return { id: item.categoria, name: item.categoria };
+  return { id: skuKey(item.codigo, item.cor, item.tamanho), name: `${item.codigo} · ${item.cor} · ${item.tamanho}` };
+};
+
+// `estoque` is a snapshot repeated on every sale row, so summing it over time overstates stock.
+// Coverage takes the latest snapshot of each SKU in each store up to `endDate` instead.
+export const computeStockCoverage = (
+  data: CleanedSaleRecord[],
+  level: CoverageLevel,
+  windowWeeks: number,
+  endDate: string
+): StockCoverage[] => {
+  const windowStart = addDays(endDate, -windowWeeks * 7 + 1);
+  const latest = new Map<string, CleanedSaleRecord>();
+  const groups = new Map<string, StockCoverage>();
+
+  data.forEach(item => {
+    if (item.data > endDate) return;
+    const { id, name } = groupOf(item, level);
+    if (!groups.has(id)) groups.set(id, { id, name, estoque: 0, vendidoJanela: 0, vendaDiaria: 0, diasCobertura: Infinity });
+    if (item.data >= windowStart) groups.get(id)!.vendidoJanela += item.quantidade;
+
+    const snapshotKey = `${item.loja}|${skuKey(item.codigo, item.cor, item.tamanho)}`;
+    const current = latest.get(snapshotKey);
+    if (!current || item.data >= current.data) latest.set(snapshotKey, item);
+  });
+
+  latest.forEach(item => {
+    groups.get(groupOf(item, level).id)!.estoque += item.estoque;
+  });
+
+  return Array.from(groups.values()).map(group => {
+    const vendaDiaria = group.vendidoJanela / (windowWeeks * 7);
+    return {
+      ...group,
+      vendaDiaria,
+      diasCobertura: vendaDiaria > 0 ? Math.max(group.estoque, 0) / vendaDiaria : Infinity,
+    };
+  });
+};
+
+// Selling items that will run out within `days` (or already have)
+export const stockOutRisk = (coverage: StockCoverage[], days: number): StockCoverage[] =>
+  coverage
+    .filter(c => c.vendaDiaria > 0 && c.diasCobertura <= days)
+    .sort((a, b) => a.diasCobertura - b.diasCobertura || b.vendaDiaria - a.vendaDiaria);
+
+// Stock that would last more than `days`, including stock that didn't sell at all in the window
+export const excessCoverage = (coverage: StockCoverage[], days: number): StockCoverage[] =>
+  coverage
+    .filter(c => c.estoque > 0 && c.diasCobertura > days)
+    .sort((a, b) => b.diasCobertura - a.diasCobertura || b.estoque - a.estoque);
+
+export const formatCoverage = (days: number): string =>
+  Number.isFinite(days) ? `${Math.round(days)} dias (${(days / 7).toFixed(1)} sem.)` : 'Sem venda';
@@ -0,0 +1,26 @@
+// Settings kept in the browser's localStorage as JSON
+
+// A missing, unreadable or wrongly shaped value gives the fallback, so a stale entry never breaks the app
+export const loadJson = <T>(key: string, fallback: T, isValid: (val: any) => val is T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return fallback;
+    const parsed = JSON.parse(raw);
+    return isValid(parsed) ? parsed : fallback;
+  } catch (error) {
+    console.error(error);
+    return fallback;
+  }
+};
+
+export const saveJson = (key: string, value: unknown) => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+export const isListOf = <T>(isItem: (val: any) => val is T) => (val: any): val is T[] =>
+  Array.isArray(val) && val.every(isItem);
+
+export const isRecordOf = <T>(isItem: (val: any) => val is T) => (val: any): val is Record<string, T> =>
+  !!val && typeof val === 'object' && !Array.isArray(val) && Object.values(val).every(isItem);
+
+export const isString = (val: any): val is string => typeof val === 'string';
@@ -0,0 +1,93 @@
+import * as XLSX from 'xlsx';
+import { CleanedSaleRecord, StoreChannel, StoreRecord, StoreSize } from '../types';
+import { aliasKey, foldKey } from './normalizationRules';
+import { isListOf, loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'munny.storeRegistry';
+
+export const CHANNEL_LABELS: Record<StoreChannel, string> = {
+  propria: 'Loja Própria',
+  franquia: 'Franquia',
+  ecommerce: 'E-commerce',
+  atacado: 'Atacado',
+};
+
+export const SIZE_LABELS: Record<StoreSize, string> = {
+  pequena: 'Pequena',
+  media: 'Média',
+  grande: 'Grande',
+};
+
+// Value of regiao/canal/porte for stores missing from the registry (or with the attribute blank)
+export const UNREGISTERED = 'Sem cadastro';
+
+// A store needs a full prior year in the period to be comparable
+const COMPARABLE_MONTHS = 12;
+
+const isStoreRecord = (val: any): val is StoreRecord => !!val && typeof val.loja === 'string';
+
+export const loadStores = (): StoreRecord[] => loadJson(STORAGE_KEY, [], isListOf(isStoreRecord));
+
+export const saveStores = (stores: StoreRecord[]) => saveJson(STORAGE_KEY, stores);
+
+export const parseChannel = (val: any): StoreChannel | '' => {
+  const v = foldKey(val);
+  if (!v) return '';
+  if (v.includes('franq')) return 'franquia';
+  if (v.includes('commerce') || v.includes('online') || v.includes('site') || v.includes('digital')) return 'ecommerce';
+  if (v.includes('atacado') || v.includes('multimarca') || v.includes('b2b')) return 'atacado';
+  if (v.includes('propria') || v.includes('fisica') || v.includes('varejo')) return 'propria';
+  return '';
+};
+
+export const parseSize = (val: any): StoreSize | '' => {
+  const v = foldKey(val);
+  if (!v) return '';
+  if (v === 'p' || v.startsWith('peq')) return 'pequena';
+  if (v === 'm' || v.startsWith('med')) return 'media';
+  if (v === 'g' || v.startsWith('gra')) return 'grande';
+  return '';
+};
+
+// Adds new stores and replaces the attributes of the ones already registered
+export const mergeStores = (current: StoreRecord[], incoming: StoreRecord[]): StoreRecord[] => {
+  const map = new Map(current.map(s => [aliasKey(s.loja), s]));
+  incoming.forEach(s => map.set(aliasKey(s.loja), s));
+  return Array.from(map.values()).sort((a, b) => a.loja.localeCompare(b.loja));
+};
+
+export const applyStoreRegistry = (data: CleanedSaleRecord[], stores: StoreRecord[]): CleanedSaleRecord[] => {
+  const map = new Map(stores.map(s => [aliasKey(s.loja), s]));
+  return data.map(item => {
+    const store = map.get(aliasKey(item.loja));
+    return {
+      ...item,
+      regiao: store?.regiao || UNREGISTERED,
+      canal: store?.canal ? CHANNEL_LABELS[store.canal] : UNREGISTERED,
+      porte: store?.porte ? SIZE_LABELS[store.porte] : UNREGISTERED,
+    };
+  });
+};
+
+// Stores opened less than 12 months before `periodStart` (yyyy-mm-dd); without an opening date a store counts as comparable
+export const newStores = (stores: StoreRecord[], periodStart: string): Set<string> => {
+  const [year, month, day] = periodStart.split('-').map(Number);
+  const shifted = year * 12 + (month - 1) - COMPARABLE_MONTHS;
+  const cutoff = `${Math.floor(shifted / 12)}-${String((shifted % 12) + 1).padStart(2, '0')}-${String(day || 1).padStart(2, '0')}`;
+  return new Set(stores.filter(s => s.dataAbertura && s.dataAbertura > cutoff).map(s => aliasKey(s.loja)));
+};
+
+export const isComparableStore = (newStores: Set<string>, loja: string) => !newStores.has(aliasKey(loja));
+
+export const exportStores = (stores: StoreRecord[]) => {
+  const rows = [
+    ['Loja', 'Região', 'Canal', 'Porte', 'Data de Abertura'],
+    ...stores.map(s => [
+      s.loja, s.regiao, s.canal ? CHANNEL_LABELS[s.canal] : '', s.porte ? SIZE_LABELS[s.porte] : '',
+      s.dataAbertura ? s.dataAbertura.split('-').reverse().join('/') : ''
+    ]),
+  ];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Lojas');
+  XLSX.writeFile(workbook, 'munny-cadastro-lojas.xlsx');
+};
@@ -0,0 +1,103 @@
+import { AbcClass, DashboardView, DateRange, FilterField, MetricMode, TableSort } from '../types';
+import { COMPARISON_MODES } from './dateRanges';
+import { FILTER_FIELDS } from './dimensionFilters';
+
+export const DEFAULT_VIEW: DashboardView = {
+  filters: {},
+  sameStoreOnly: false,
+  dateRange: { start: '', end: '' },
+  comparisonMode: 'none',
+  customComparison: { start: '', end: '' },
+  metricMode: 'revenue',
+  sort: { key: 'faturado', direction: 'desc' },
+  search: '',
+  abcFilter: 'all',
+};
+
+const METRIC_MODES: MetricMode[] = ['revenue', 'quantity', 'margin'];
+const ABC_CLASSES: AbcClass[] = ['A', 'B', 'C'];
+// Columns the detail table can sort by
+const SORT_KEYS: TableSort['key'][] = [
+  'codigo', 'produto', 'cor', 'tamanho', 'curvaAbc', 'qtdCortada', 'qtdVendida', 'taxaDevolucao',
+  'faturado', 'margemBruta', 'margemPercentual', 'percentualVendido', 'estoqueAtual', 'diasCobertura',
+];
+
+const isDate = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const readRange = (params: URLSearchParams, startKey: string, endKey: string): DateRange => {
+  const start = params.get(startKey);
+  const end = params.get(endKey);
+  return isDate(start) && isDate(end) && start <= end ? { start, end } : { start: '', end: '' };
+};
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  value !== null && (allowed as readonly string[]).includes(value) ? value as T : fallback;
+
+// Query string with only what differs from the default view, in a fixed order so the same view
+// always gives the same URL. The date range is left out when it covers the whole data (`bounds`).
+export const encodeView = (view: DashboardView, bounds: DateRange): string => {
+  const params = new URLSearchParams();
+  const excluded: FilterField[] = [];
+  FILTER_FIELDS.forEach(({ key }) => {
+    const filter = view.filters[key];
+    if (!filter || filter.values.length === 0) return;
+    filter.values.forEach(value => params.append(key, value));
+    if (filter.mode === 'exclude') excluded.push(key);
+  });
+  if (excluded.length > 0) params.set('excluir', excluded.join(','));
+  if (view.sameStoreOnly) params.set('comparaveis', '1');
+
+  const { start, end } = view.dateRange;
+  if (start && end && (start !== bounds.start || end !== bounds.end)) {
+    params.set('de', start);
+    params.set('ate', end);
+  }
+  if (view.comparisonMode !== 'none') params.set('comparar', view.comparisonMode);
+  if (view.comparisonMode === 'custom' && view.customComparison.start && view.customComparison.end) {
+    params.set('comparar_de', view.customComparison.start);
+    params.set('comparar_ate', view.customComparison.end);
+  }
+  if (view.metricMode !== DEFAULT_VIEW.metricMode) params.set('metrica', view.metricMode);
+  if (view.sort.key !== DEFAULT_VIEW.sort.key || view.sort.direction !== DEFAULT_VIEW.sort.direction) {
+    params.set('ordem', `${view.sort.key}.${view.sort.direction}`);
+  }
+  if (view.search) params.set('busca', view.search);
+  if (view.abcFilter !== 'all') params.set('curva', view.abcFilter);
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+// Unknown or malformed parameters fall back to the default, so an old or hand-edited link still opens
+export const decodeView = (search: string): DashboardView => {
+  const params = new URLSearchParams(search);
+  const excluded = (params.get('excluir') || '').split(',');
+
+  const filters: DashboardView['filters'] = {};
+  FILTER_FIELDS.forEach(({ key }) => {
+    const values = params.getAll(key).filter(v => v !== '');
+    if (values.length > 0) filters[key] = { values, mode: excluded.includes(key) ? 'exclude' : 'include' };
+  });
+
+  const [sortKey, sortDirection] = (params.get('ordem') || '').split('.');
+  const comparisonMode = oneOf(params.get('comparar'), COMPARISON_MODES.map(m => m.key), DEFAULT_VIEW.comparisonMode);
+
+  return {
+    filters,
+    sameStoreOnly: params.get('comparaveis') === '1',
+    dateRange: readRange(params, 'de', 'ate'),
+    comparisonMode,
+    customComparison: comparisonMode === 'custom' ? readRange(params, 'comparar_de', 'comparar_ate') : DEFAULT_VIEW.customComparison,
+    metricMode: oneOf(params.get('metrica'), METRIC_MODES, DEFAULT_VIEW.metricMode),
+    sort: {
+      key: oneOf(sortKey || null, SORT_KEYS, DEFAULT_VIEW.sort.key),
+      direction: oneOf(sortDirection || null, ['asc', 'desc'] as const, DEFAULT_VIEW.sort.direction),
+    },
+    search: params.get('busca') || '',
+    abcFilter: oneOf(params.get('curva'), ABC_CLASSES, DEFAULT_VIEW.abcFilter),
+  };
+};
+
+// Typing in the search box replaces the history entry instead of adding one per keystroke
+export const onlySearchChanged = (previous: DashboardView, next: DashboardView): boolean =>
+  previous.search !== next.search && encodeView({ ...previous, search: '' }, { start: '', end: '' }) === encodeView({ ...next, search: '' }, { start: '', end: '' });
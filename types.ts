@@ -2,6 +2,9 @@ export interface RawSaleRecord {
   [key: string]: any;
 }
 
+// Sign convention: returns carry negative quantidade/valorTotal, so plain sums give net sales
+export type TransactionType = 'venda' | 'devolucao' | 'troca';
+
 export interface CleanedSaleRecord {
   id: string;
   loja: string;
@@ -17,31 +20,89 @@ export interface CleanedSaleRecord {
   modelo: string;
   colecao: string;
   estoque: number;
+  tipoMovimento: TransactionType;
+  origemArquivo: string; // source file name
+  origemAba: string; // source sheet name
+  precoLista?: number; // from the product catalog
+  custoUnitario?: number; // from the product catalog, or the sales sheet's cost column
+  regiao?: string; // from the store registry
+  canal?: string; // from the store registry (label)
+  porte?: string; // from the store registry (label)
 }
 
-export interface CorteRecord {
+// Product attributes shared by every record of the same codigo
+export type ProductAttributes = Pick<CleanedSaleRecord, 'produto' | 'categoria' | 'subCategoria' | 'modelo' | 'colecao'>;
+
+export interface CorteRecord extends Partial<ProductAttributes> {
   codigo: string;
   cor: string;
   tamanho: string;
   quantidade: number;
 }
 
+// Product master (catalog): authoritative attributes per codigo
+export interface ProductRecord extends ProductAttributes {
+  codigo: string;
+  precoLista: number;
+  custoUnitario: number;
+}
+
+// Inclusive range of yyyy-mm-dd dates
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export type DatePreset =
+  | 'all' | 'thisWeek' | 'last7' | 'last30' | 'last90' | 'monthToDate' | 'quarter' | 'yearToDate' | 'samePeriodLastYear';
+
+export type ComparisonMode = 'none' | 'previousPeriod' | 'previousYear' | 'custom';
+
+// Record value summed by charts; 'margem' is valorTotal minus custoUnitario * quantidade
+export type SalesValueKey = 'valorTotal' | 'quantidade' | 'margem';
+
+export type TimeGranularity = 'day' | 'week' | 'month';
+
+export interface TimeSeriesPoint {
+  bucket: string; // first day of the bucket (yyyy-mm-dd)
+  end: string; // last day of the bucket
+  label: string;
+  value: number;
+  previous?: number; // same bucket one year earlier
+  movingAverage?: number;
+}
+
 export interface AggregatedData {
   name: string;
   value: number;
   count?: number;
   estoque?: number;
+  gross?: number; // sales before returns, same unit as value
+  returns?: number; // returned amount (positive), same unit as value
+  returnRate?: number; // returns / gross * 100
+  comparison?: number; // value in the comparison period, same unit as value
+  margin?: number; // gross margin R$ of rows with a unit cost
+  marginRate?: number; // margin / revenue of rows with a unit cost * 100
+  markup?: number; // revenue / cost of rows with a unit cost
   [key: string]: any;
 }
 
 export interface DashboardMetrics {
-  totalRevenue: number;
-  totalItems: number;
+  totalRevenue: number; // net of returns
+  grossRevenue: number;
+  returnsRevenue: number;
+  returnRate: number; // returnsRevenue / grossRevenue * 100
+  totalItems: number; // net of returns
+  returnedItems: number;
   averageTicket: number;
   topStore: string;
   totalStock: number;
   totalCut: number; // Novo campo
   sellThroughRate: number;
+  grossMargin: number; // R$, rows with a unit cost only
+  marginRate: number; // grossMargin / costed revenue * 100
+  markup: number; // costed revenue / cost
+  costCoverage: number; // share of net revenue that has a unit cost, * 100
 }
 
 export interface DetailedTableRow {
@@ -51,7 +112,376 @@ export interface DetailedTableRow {
   cor: string;
   tamanho: string;
   qtdCortada: number; // Virá da nova tabela
-  qtdVendida: number; // Soma das vendas
-  faturado: number; // Soma do valorTotal
+  qtdVendida: number; // Soma das vendas (líquida de devoluções)
+  qtdDevolvida: number;
+  faturado: number; // Soma do valorTotal (líquida de devoluções)
+  valorDevolvido: number;
+  taxaDevolucao: number; // (Devolvida / Vendida bruta) * 100
   percentualVendido: number; // (Vendida / Cortada) * 100
-}
\ No newline at end of file
+  margemBruta: number; // faturado - custo, 0 without a unit cost
+  margemPercentual: number; // (Margem / Faturado) * 100
+  markup: number; // Faturado / Custo, 0 without a unit cost
+  curvaAbc?: AbcClass; // class of the reference (codigo) in the ABC curve
+  estoqueAtual?: number; // latest stock of the SKU, summed over stores
+  diasCobertura?: number; // days of supply at the recent sales velocity, Infinity without sales
+}
+
+// Cut vs sold of one reference, colors as rows and sizes as columns
+export interface SizeGridCell {
+  qtdCortada: number;
+  qtdVendida: number;
+  percentualVendido: number; // (Vendida / Cortada) * 100, 0 without cut
+}
+
+export interface SizeGrid {
+  codigo: string;
+  produto: string;
+  sizes: string[]; // in the configured size order
+  rows: { cor: string; cells: (SizeGridCell | null)[]; total: SizeGridCell }[]; // null: color/size never cut nor sold
+  sizeTotals: SizeGridCell[];
+  total: SizeGridCell;
+}
+
+// --- Dimension filters ---
+
+export type FilterField =
+  | 'loja' | 'regiao' | 'canal' | 'porte'
+  | 'categoria' | 'subCategoria' | 'colecao' | 'modelo' | 'codigo' | 'cor' | 'tamanho';
+
+export type FilterMode = 'include' | 'exclude';
+
+// Values kept (include) or left out (exclude); set from the header or by clicking chart elements
+export interface DimensionFilter {
+  values: string[];
+  mode: FilterMode;
+}
+
+// A field with no filter (or no values) doesn't filter
+export type DimensionFilters = Partial<Record<FilterField, DimensionFilter>>;
+
+// --- Dashboard view state ---
+
+export type MetricMode = 'revenue' | 'quantity' | 'margin';
+
+export interface TableSort {
+  key: keyof DetailedTableRow;
+  direction: 'asc' | 'desc';
+}
+
+// Everything needed to reopen the same dashboard view over the same files
+export interface DashboardView {
+  filters: DimensionFilters;
+  sameStoreOnly: boolean;
+  dateRange: DateRange; // empty: the whole data range
+  comparisonMode: ComparisonMode;
+  customComparison: DateRange;
+  metricMode: MetricMode;
+  sort: TableSort;
+  search: string;
+  abcFilter: AbcClass | 'all';
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  view: DashboardView;
+  datePreset?: DatePreset; // set when the range was a preset, so "last 30 days" stays relative
+  isDefault: boolean; // opened when the dashboard loads without a view in the URL
+  updatedAt: string;
+}
+
+// --- ABC curve ---
+
+export type AbcClass = 'A' | 'B' | 'C';
+
+// Share of the total each class covers, e.g. 80/15 (C takes the remaining 5)
+export interface AbcThresholds {
+  a: number;
+  b: number;
+}
+
+export interface AbcItem extends AggregatedData {
+  share: number; // value / total of positive values * 100
+  cumulativeShare: number;
+  abc: AbcClass;
+}
+
+// --- Stock coverage ---
+
+export type CoverageLevel = 'sku' | 'loja' | 'categoria';
+
+export interface StockCoverage {
+  id: string; // SKU key (same as DetailedTableRow.id), store or category
+  name: string;
+  estoque: number; // latest stock snapshot per SKU and store, summed
+  vendidoJanela: number; // net units sold in the velocity window
+  vendaDiaria: number;
+  diasCobertura: number; // estoque / vendaDiaria; Infinity when nothing sold in the window
+}
+
+// --- Forecast ---
+
+export type ForecastMethod = 'auto' | 'seasonalNaive' | 'ses' | 'holt' | 'holtWinters';
+
+export interface ForecastPoint {
+  bucket: string;
+  label: string;
+  actual?: number;
+  forecast?: number;
+  band?: [number, number]; // 95% interval, widening with the horizon
+}
+
+export interface ForecastBacktest {
+  periods: number; // last periods held out of the fit
+  wape: number; // sum |error| / sum |actual| * 100
+  mae: number;
+}
+
+export interface ForecastResult {
+  method: Exclude<ForecastMethod, 'auto'> | null; // null: not enough history for any model
+  points: ForecastPoint[];
+  backtest: ForecastBacktest | null;
+  projectedTotal: number; // sum of the forecast horizon
+}
+
+// --- Re-cut recommendations ---
+
+export interface RecutParams {
+  targetDays: number; // coverage the new cut plus remaining stock should reach
+  minBatch: number; // smallest quantity worth sending to production
+  minSellThrough: number; // % sold of the last cut; below it the SKU is not re-cut
+}
+
+export interface RecutSuggestion {
+  id: string; // SKU key, same as DetailedTableRow.id
+  codigo: string;
+  produto: string;
+  cor: string;
+  tamanho: string;
+  qtdCortada: number;
+  qtdVendida: number;
+  percentualVendido: number;
+  estoqueAtual: number;
+  vendaDiaria: number;
+  sugerido: number;
+}
+
+// --- Collection lifecycle ---
+
+export type LifecycleMetric = 'percentualVendido' | 'acumulado';
+
+export interface LifecyclePoint {
+  semana: number; // weeks since launch, 0 = launch week
+  qtdVendida: number; // net units sold in the week
+  acumulado: number; // net units sold up to the end of the week
+  percentualVendido: number | null; // acumulado / cut, null when the collection has no cut
+}
+
+export interface CollectionLifecycle {
+  colecao: string;
+  lancamento: string; // yyyy-mm-dd, first sale or manual override
+  lancamentoManual: boolean;
+  qtdCortada: number;
+  points: LifecyclePoint[];
+}
+
+// --- Pivot table ---
+
+// Record fields plus month/week buckets derived from `data`
+export type PivotDimension =
+  | 'loja' | 'regiao' | 'canal' | 'porte' | 'categoria' | 'subCategoria' | 'produto' | 'codigo'
+  | 'cor' | 'tamanho' | 'modelo' | 'colecao' | 'tipoMovimento' | 'mes' | 'semana';
+
+export type PivotMeasure = 'faturamento' | 'quantidade' | 'margem' | 'estoque' | 'corte' | 'giro';
+
+export interface PivotConfig {
+  rows: PivotDimension[]; // one or two levels; the outer level gets subtotals
+  column: PivotDimension | null;
+  measure: PivotMeasure;
+  sortBy: 'label' | 'total';
+  sortDirection: 'asc' | 'desc';
+}
+
+export interface PivotRow {
+  labels: string[]; // one per row level; subtotal rows only carry the outer label
+  cells: (number | null)[]; // null: no data for the row/column pair
+  total: number;
+  subtotal: boolean;
+}
+
+export interface PivotTable {
+  columns: string[];
+  rows: PivotRow[];
+  columnTotals: number[];
+  grandTotal: number;
+}
+
+// --- Store registry ---
+
+export type StoreChannel = 'propria' | 'franquia' | 'ecommerce' | 'atacado';
+export type StoreSize = 'pequena' | 'media' | 'grande';
+
+export interface StoreRecord {
+  loja: string;
+  regiao: string;
+  canal: StoreChannel | ''; // '' when not informed
+  porte: StoreSize | '';
+  dataAbertura: string; // yyyy-mm-dd, '' when unknown
+}
+
+// --- Import column mapping ---
+
+export type ImportFileKind = 'sales' | 'corte' | 'catalogo' | 'lojas';
+
+export type SalesField =
+  | 'data' | 'loja' | 'codigo' | 'produto' | 'categoria' | 'subCategoria'
+  | 'cor' | 'tamanho' | 'modelo' | 'colecao' | 'quantidade' | 'valorTotal' | 'estoque' | 'tipoMovimento' | 'custoUnitario';
+
+export type CorteField = 'codigo' | 'cor' | 'tamanho' | 'quantidade';
+
+export type StoreField = 'loja' | 'regiao' | 'canal' | 'porte' | 'dataAbertura';
+
+export type CatalogField =
+  | 'codigo' | 'produto' | 'categoria' | 'subCategoria' | 'modelo' | 'colecao' | 'precoLista' | 'custoUnitario';
+
+export interface ImportSource {
+  fileName: string;
+  sheetName: string;
+}
+
+export interface SheetData extends ImportSource {
+  rows: any[][];
+}
+
+export interface ReadProgress {
+  fileName: string;
+  stage: 'reading' | 'parsing' | 'rows';
+  rowsRead: number;
+  totalRows: number;
+  percent: number; // 0-100
+}
+
+export interface ReadOptions {
+  onProgress?: (progress: ReadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface SheetReaderRequest {
+  file: File;
+  cellDates: boolean;
+}
+
+export type SheetReaderResponse =
+  | { type: 'progress'; progress: ReadProgress }
+  | { type: 'done'; sheets: SheetData[] }
+  | { type: 'error'; message: string };
+
+export interface MergeSummary {
+  sources: (ImportSource & { rows: number; duplicatesRemoved: number })[];
+  totalRows: number; // before de-duplication
+  duplicatesRemoved: number;
+}
+
+// high = header keyword, medium = generic keyword, low = positional fallback, none = unmapped
+export type MatchConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export interface ColumnMatch {
+  index: number; // -1 when unmapped
+  confidence: MatchConfidence;
+}
+
+// 'auto' keeps the BRL/US and dd/mm heuristics of the parser
+export type NumberLocale = 'auto' | 'pt-BR' | 'en-US';
+export type DateFormat = 'auto' | 'dd/mm/yyyy' | 'mm/dd/yyyy' | 'yyyy-mm-dd';
+
+export interface ColumnMapping<F extends string = string> {
+  headerRowIndex: number; // -1 when no header row was detected
+  columns: Record<F, ColumnMatch>;
+  numberLocale: NumberLocale;
+  dateFormat: DateFormat;
+}
+
+export type SalesColumnMapping = ColumnMapping<SalesField>;
+export type CorteColumnMapping = ColumnMapping<CorteField>;
+export type CatalogColumnMapping = ColumnMapping<CatalogField>;
+export type StoreColumnMapping = ColumnMapping<StoreField>;
+
+export interface FieldDefinition<F extends string = string> {
+  key: F;
+  label: string;
+  required?: boolean;
+}
+
+
+// --- Import profiles ---
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  kind: ImportFileKind;
+  headerRowIndex: number;
+  headers: string[]; // normalized header row, used to recognise the layout
+  columns: Record<string, number>; // field -> column index
+  numberLocale: NumberLocale;
+  dateFormat: DateFormat;
+  updatedAt: string;
+}
+
+// --- Normalization rules ---
+
+export type NormalizationField = 'cor' | 'tamanho' | 'loja' | 'categoria';
+
+export interface NormalizationRules {
+  aliases: Record<NormalizationField, Record<string, string>>; // alias key (see aliasKey) -> canonical value
+  sizeOrder: string[];
+}
+
+// A value found in the data that a rule should cover
+export interface NormalizationSuggestion {
+  field: NormalizationField;
+  value: string;
+  count: number;
+  suggested: string; // proposed canonical value
+  reason: 'variant' | 'newSize'; // another spelling of a known value, or a size missing from the size order
+}
+
+// --- Import validation ---
+
+export type ImportIssueReason =
+  | 'invalid_date' | 'date_before_2000' | 'zero_value' | 'missing_code'
+  | 'thousand_separator' | 'default_size' | 'default_color' | 'duplicate_code' | 'catalog_conflict';
+
+export interface ImportIssue {
+  file: ImportFileKind;
+  rowNumber: number; // row number as shown in the spreadsheet
+  severity: 'rejected' | 'suspicious';
+  reason: ImportIssueReason;
+  detail: string;
+  values: any[]; // original cells of the row
+}
+
+export interface ImportReport {
+  file: ImportFileKind;
+  fileName?: string;
+  totalRows: number; // non-blank rows below the header
+  acceptedRows: number;
+  blankRows: number;
+  issues: ImportIssue[];
+  unmappedFields: string[]; // labels of fields with no column, so every row got the default value
+}
+
+export interface ImportResult<T> {
+  records: T[];
+  report: ImportReport;
+}
+
+// --- Stored datasets ---
+
+// Imported data kept in the browser (IndexedDB); the records are stored apart so listing stays light
+export interface StoredDataset {
+  id: string;
+  files: string[]; // sales, cut and catalog file names
+  importedAt: string;
+  salesCount: number;
+  cutsCount: number;
+}